@@ -0,0 +1,104 @@
+import type { drive_v3 } from "@googleapis/drive";
+import { consola } from "consola";
+import type { GuildBasedChannel } from "discord.js";
+import type { EmbedFile } from "./embeds";
+import { getFile } from "./gdrive";
+import { getAllowedFolderIds, guildSettings } from "./guilds";
+
+// walk at most this number of ancestors to bound requests for deep folders
+const maxAncestors = 50;
+
+/**
+ * Check if a file is in any of folders, by walking its parents.
+ * Parents which are not shared with the bot cannot be walked, so files under them are treated as outside.
+ * @param file ID and metadata of the file, including `parents`
+ * @param folderIds IDs of folders or shared drives
+ * @returns true if the file is one of the folders or their descendants
+ */
+const isInFolders = async (
+	{ id, data }: { id: string; data: drive_v3.Schema$File },
+	folderIds: string[],
+): Promise<boolean> => {
+	if (folderIds.includes(id)) {
+		return true;
+	}
+	const visitedIds = new Set([id]);
+	let level = data.parents ?? [];
+	while (level.length > 0 && visitedIds.size < maxAncestors) {
+		// files in shared drives have the IDs of the drives as their outermost parents
+		if (level.some((parentId) => folderIds.includes(parentId))) {
+			return true;
+		}
+		for (const parentId of level) {
+			visitedIds.add(parentId);
+		}
+		const parents = await Promise.all(
+			level.map((parentId) => getFile(parentId)),
+		);
+		level = [
+			...new Set(
+				parents.flatMap((parent) =>
+					(parent?.parents ?? []).filter(
+						(parentId) => !visitedIds.has(parentId),
+					),
+				),
+			),
+		];
+	}
+	return false;
+};
+
+/**
+ * Check if a file can be shown in a channel by the access policy of its guild.
+ * @param channel channel to show the file in
+ * @param file ID and metadata of the file, including `parents`
+ * @returns true if the file can be shown
+ */
+export const isAllowedInChannel = async (
+	channel: GuildBasedChannel,
+	file: { id: string; data: drive_v3.Schema$File },
+): Promise<boolean> => {
+	const folderIds = getAllowedFolderIds(channel);
+	return !folderIds || (await isInFolders(file, folderIds));
+};
+
+/**
+ * Apply the access policy of a guild to files to show in a channel, and log the decisions.
+ * @param channel channel to show the files in
+ * @param files files to show, resolved by `resolveShortcut`
+ * @param context feature showing the files, e.g. `embeds`, for logs
+ * @returns files to show, where restricted files are marked or removed as configured, and restricted files
+ */
+export const applyAccessPolicy = async (
+	channel: GuildBasedChannel,
+	files: EmbedFile[],
+	context: string,
+): Promise<{ files: EmbedFile[]; restrictedFiles: EmbedFile[] }> => {
+	const access = guildSettings.get(channel.guildId)?.access;
+	const folderIds = getAllowedFolderIds(channel);
+	if (!(access && folderIds)) {
+		return { files, restrictedFiles: [] };
+	}
+	const decisions = await Promise.all(
+		files.map((file) => isInFolders(file, folderIds)),
+	);
+	const shownFiles: EmbedFile[] = [];
+	const restrictedFiles: EmbedFile[] = [];
+	for (const [i, file] of files.entries()) {
+		const isAllowed = decisions[i] ?? false;
+		consola.info(
+			`Access policy ${isAllowed ? "allowed" : "restricted"} file ${
+				file.id
+			} in channel ${channel.id} of guild ${channel.guildId} (${context}).`,
+		);
+		if (isAllowed) {
+			shownFiles.push({ ...file, rootFolderIds: folderIds });
+			continue;
+		}
+		restrictedFiles.push(file);
+		if (access.restricted === "card") {
+			shownFiles.push({ ...file, restricted: true });
+		}
+	}
+	return { files: shownFiles, restrictedFiles };
+};
@@ -0,0 +1,81 @@
+import {
+	EmbedBuilder,
+	PermissionFlagsBits,
+	SlashCommandSubcommandBuilder,
+} from "discord.js";
+import {
+	findAuditEvents,
+	formatAuditEvent,
+	isAuditEnabled,
+} from "./auditEvents";
+import type { ExecutableSubcommand } from "./commands";
+import { parseDriveUrl } from "./links";
+
+// descriptions of embeds are limited to 4096 characters, which fits about 15 events
+const maxEvents = 15;
+
+/**
+ * Subcommand to show the audit log of a file.
+ */
+export const auditSubcommand: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandBuilder()
+		.setName("audit")
+		.setDescription(
+			"Show when and where a file was shown by the bot (admin only)",
+		)
+		.addStringOption((option) =>
+			option
+				.setName("file")
+				.setDescription("URL of the file")
+				.setRequired(true),
+		),
+	execute: async (interaction) => {
+		// subcommands cannot have their own default permissions, so check them here
+		if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+			await interaction.reply({
+				content: "You need the Manage Server permission to see the audit log.",
+				ephemeral: true,
+			});
+			return;
+		}
+		if (!(isAuditEnabled && interaction.guildId)) {
+			await interaction.reply({
+				content: "The audit log is not enabled for this bot.",
+				ephemeral: true,
+			});
+			return;
+		}
+		const url = interaction.options.getString("file", true);
+		const fileId = parseDriveUrl(url)?.fileId;
+		if (!fileId) {
+			await interaction.reply({
+				content: "Specify the URL of a Google Drive file.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		const events = findAuditEvents(interaction.guildId, fileId, maxEvents);
+		if (events.length === 0) {
+			await interaction.reply({
+				content: "No events are recorded for the file.",
+				ephemeral: true,
+			});
+			return;
+		}
+		await interaction.reply({
+			embeds: [
+				new EmbedBuilder()
+					.setTitle(
+						// the latest known name, since names are unknown in some events
+						events.find(({ title }) => title)?.title ?? fileId,
+					)
+					.setURL(url)
+					.setDescription(events.map(formatAuditEvent).join("\n"))
+					.setFooter({ text: `Latest ${events.length} events` })
+					.toJSON(),
+			],
+			ephemeral: true,
+		});
+	},
+};
@@ -0,0 +1,234 @@
+// biome-ignore lint/nursery/noNodejsModules: bun has no API to append to files
+import { appendFile } from "node:fs/promises";
+import { consola } from "consola";
+import {
+	type Client,
+	hideLinkEmbed,
+	hyperlink,
+	messageLink,
+	time,
+	userMention,
+} from "discord.js";
+import { config } from "./config";
+import { database } from "./database";
+import { escapeLinkText } from "./util/markdown";
+
+/**
+ * What the bot did with the embed of a file, `shared` if a user shared it from search results,
+ * or `refused` if the access policy restricted it.
+ */
+export type AuditAction =
+	| "created"
+	| "edited"
+	| "deleted"
+	| "shared"
+	| "refused";
+
+/**
+ * Record of metadata of a file which the bot revealed or refused to reveal.
+ */
+export type AuditEvent = {
+	/**
+	 * Time in RFC 3339 format.
+	 */
+	time: string;
+	action: AuditAction;
+	fileId: string;
+	/**
+	 * Name of the file, or null if unknown, e.g. when its embed is deleted.
+	 */
+	title: string | null;
+	/**
+	 * ID of the user who posted the link, or null if unknown.
+	 */
+	userId: string | null;
+	guildId: string;
+	channelId: string;
+	/**
+	 * ID of the message which contains the link.
+	 */
+	messageId: string;
+};
+
+/**
+ * Whether audit events are recorded, which requires an audit channel or an audit log file.
+ */
+export const isAuditEnabled =
+	config.audit.channelId !== undefined || config.audit.logPath !== undefined;
+
+// a message can contain up to 2000 characters
+const maxMessageLength = 2000;
+
+database.exec(`
+	CREATE TABLE IF NOT EXISTS audit_events (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		time TEXT NOT NULL,
+		action TEXT NOT NULL,
+		file_id TEXT NOT NULL,
+		title TEXT,
+		user_id TEXT,
+		guild_id TEXT NOT NULL,
+		channel_id TEXT NOT NULL,
+		message_id TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS audit_events_file_id ON audit_events (guild_id, file_id);
+	CREATE INDEX IF NOT EXISTS audit_events_message_id ON audit_events (message_id);
+`);
+
+const insertEventQuery = database.query<never, AuditEvent>(
+	"INSERT INTO audit_events (time, action, file_id, title, user_id, guild_id, channel_id, message_id) VALUES ($time, $action, $fileId, $title, $userId, $guildId, $channelId, $messageId)",
+);
+const selectFileEventsQuery = database.query<
+	AuditEvent,
+	{ guildId: string; fileId: string; limit: number }
+>(
+	"SELECT time, action, file_id AS fileId, title, user_id AS userId, guild_id AS guildId, channel_id AS channelId, message_id AS messageId FROM audit_events WHERE guild_id = $guildId AND file_id = $fileId ORDER BY id DESC LIMIT $limit",
+);
+const selectMessageEventsQuery = database.query<
+	Pick<AuditEvent, "action" | "fileId">,
+	{ messageId: string }
+>(
+	"SELECT action, file_id AS fileId FROM audit_events WHERE message_id = $messageId ORDER BY id",
+);
+
+/**
+ * Format an audit event into a line of a Discord message.
+ * @param event audit event
+ * @returns line with the time, action, file, user, and message
+ */
+export const formatAuditEvent = ({
+	time: eventTime,
+	action,
+	fileId,
+	title,
+	userId,
+	guildId,
+	channelId,
+	messageId,
+}: AuditEvent): string =>
+	[
+		time(new Date(eventTime), "f"),
+		`**${action}**`,
+		hyperlink(
+			escapeLinkText(title ?? fileId),
+			hideLinkEmbed(`https://drive.google.com/open?id=${fileId}`),
+		),
+		...(userId ? ["posted by", userMention(userId)] : []),
+		"in",
+		messageLink(channelId, messageId, guildId),
+	].join(" ");
+
+/**
+ * Split lines into contents of messages within the length limit.
+ * @param lines lines to post
+ * @returns contents of messages
+ */
+const chunkLines = (lines: string[]): string[] => {
+	const contents: string[] = [];
+	for (const line of lines) {
+		const last = contents.at(-1);
+		if (
+			last !== undefined &&
+			last.length + line.length + 1 <= maxMessageLength
+		) {
+			contents[contents.length - 1] = `${last}\n${line}`;
+		} else {
+			contents.push(line.slice(0, maxMessageLength));
+		}
+	}
+	return contents;
+};
+
+/**
+ * Post audit events to the audit channel.
+ * @param client client to fetch the channel
+ * @param channelId ID of the audit channel
+ * @param events audit events
+ */
+const postAuditEvents = async (
+	client: Client,
+	channelId: string,
+	events: AuditEvent[],
+) => {
+	const channel = await client.channels.fetch(channelId);
+	if (!channel?.isSendable()) {
+		throw new Error(`Audit channel ${channelId} is not sendable.`);
+	}
+	for (const content of chunkLines(events.map(formatAuditEvent))) {
+		await channel.send({
+			content,
+			// do not notify users recorded in the audit log
+			allowedMentions: { parse: [] },
+		});
+	}
+};
+
+// write events one by one to keep their order in the audit channel and the log file
+let pendingWrite = Promise.resolve();
+
+/**
+ * Record audit events in the database, and write them to the audit channel and the audit log file.
+ * Failures are logged rather than thrown, not to stop the bot from working.
+ * @param client client to post to the audit channel
+ * @param events audit events
+ */
+export const recordAuditEvents = async (
+	client: Client,
+	events: AuditEvent[],
+) => {
+	if (!isAuditEnabled || events.length === 0) {
+		return;
+	}
+	for (const event of events) {
+		insertEventQuery.run(event);
+	}
+
+	const { channelId, logPath } = config.audit;
+	const write = pendingWrite.then(async () => {
+		try {
+			if (logPath) {
+				await appendFile(
+					logPath,
+					events.map((event) => `${JSON.stringify(event)}\n`).join(""),
+				);
+			}
+			if (channelId) {
+				await postAuditEvents(client, channelId, events);
+			}
+		} catch (error) {
+			consola.error(`Failed to write ${events.length} audit events.`);
+			// do not use consola#error to throw Error since it cannot handle line numbers correctly
+			console.error(error);
+		}
+	});
+	pendingWrite = write;
+	await write;
+};
+
+/**
+ * Find the latest audit events of a file in a guild.
+ * @param guildId ID of the guild
+ * @param fileId ID of the file
+ * @param limit maximum number of events
+ * @returns audit events from the newest to the oldest
+ */
+export const findAuditEvents = (
+	guildId: string,
+	fileId: string,
+	limit: number,
+): AuditEvent[] => selectFileEventsQuery.all({ guildId, fileId, limit });
+
+/**
+ * Find the latest action of each file recorded for a message.
+ * @param messageId ID of the message which contains the links
+ * @returns latest actions keyed by file IDs
+ */
+export const findLatestAuditActions = (
+	messageId: string,
+): Map<string, AuditAction> =>
+	new Map(
+		// later events overwrite earlier ones
+		selectMessageEventsQuery
+			.all({ messageId })
+			.map(({ fileId, action }) => [fileId, action]),
+	);
@@ -0,0 +1,270 @@
+import { sleep } from "bun";
+import { consola } from "consola";
+import {
+	ChannelType,
+	type ChatInputCommandInteraction,
+	type GuildTextBasedChannel,
+	type Message,
+	PermissionFlagsBits,
+	SlashCommandSubcommandBuilder,
+	SnowflakeUtil,
+	time,
+} from "discord.js";
+import type { ExecutableSubcommand } from "./commands";
+import { deleteState, getState, setState } from "./database";
+import { updateEmbedsMessage } from "./embeds";
+import { isEnabledChannel } from "./guilds";
+import { extractDriveLinks } from "./links";
+
+// a request can fetch up to 100 messages
+// ref: https://discord.com/developers/docs/resources/message#get-channel-messages
+const fetchLimit = 100;
+// wait between updates of embeds to leave room for other requests under the rate limit
+const updateInterval = 1000;
+// minimum interval between progress reports, in milliseconds
+const progressInterval = 5000;
+// interaction tokens expire after 15 minutes, so stop reporting a bit earlier
+// ref: https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-response-object
+const interactionTokenLifetime = 14 * 60 * 1000;
+
+/**
+ * Checkpoint of a backfill, persisted to resume it if interrupted.
+ */
+type BackfillCheckpoint = {
+	/**
+	 * Snowflake of the time to backfill from.
+	 */
+	since: string;
+	/**
+	 * ID of the last processed message.
+	 */
+	cursor: string;
+};
+
+/**
+ * Progress of a backfill.
+ */
+type BackfillProgress = {
+	scanned: number;
+	updated: number;
+	/**
+	 * ID of the last processed message.
+	 */
+	cursor: string;
+};
+
+// IDs of channels being backfilled, to avoid running backfills of the same channel concurrently
+const runningChannelIds = new Set<string>();
+
+/**
+ * Get the key of the persisted checkpoint of a channel.
+ * @param channelId ID of the channel
+ * @returns key of the state
+ */
+const getCheckpointKey = (channelId: string): string => `backfill.${channelId}`;
+
+/**
+ * Read the checkpoint of a backfill of a channel.
+ * @param channelId ID of the channel
+ * @returns checkpoint, or undefined if no backfill was interrupted
+ */
+const readCheckpoint = (channelId: string): BackfillCheckpoint | undefined => {
+	const value = getState(getCheckpointKey(channelId));
+	return value ? JSON.parse(value) : undefined;
+};
+
+/**
+ * Fetch messages after a message in a channel.
+ * @param channel channel to fetch messages from
+ * @param after ID or snowflake to fetch messages after
+ * @returns messages in chronological order
+ */
+export const fetchMessagesAfter = async (
+	channel: GuildTextBasedChannel,
+	after: string,
+): Promise<Message[]> => {
+	const messages = await channel.messages.fetch({ after, limit: fetchLimit });
+	return [...messages.values()].sort((a, b) =>
+		BigInt(a.id) < BigInt(b.id) ? -1 : 1,
+	);
+};
+
+/**
+ * Create embeds for messages in a channel since a time, resuming from the checkpoint if any.
+ * Messages whose embeds are up to date are skipped by `updateEmbedsMessage`, so processing them again is safe.
+ * @param channel channel to backfill
+ * @param since snowflake of the time to backfill from
+ * @param onProgress function called after each page of messages
+ * @returns final progress
+ */
+const backfillChannel = async (
+	channel: GuildTextBasedChannel,
+	since: string,
+	onProgress: (progress: BackfillProgress) => Promise<void>,
+): Promise<BackfillProgress> => {
+	const checkpointKey = getCheckpointKey(channel.id);
+	const checkpoint = readCheckpoint(channel.id);
+	const progress: BackfillProgress = {
+		scanned: 0,
+		updated: 0,
+		// resume only if the same backfill was interrupted
+		cursor: checkpoint?.since === since ? checkpoint.cursor : since,
+	};
+
+	while (true) {
+		const messages = await fetchMessagesAfter(channel, progress.cursor);
+		if (messages.length === 0) {
+			break;
+		}
+		for (const message of messages) {
+			progress.scanned++;
+			// ignore self messages including embeds messages
+			if (
+				message.author.id !== message.client.user.id &&
+				extractDriveLinks(message.content).length > 0
+			) {
+				await updateEmbedsMessage(message);
+				progress.updated++;
+				await sleep(updateInterval);
+			}
+			progress.cursor = message.id;
+			setState(
+				checkpointKey,
+				JSON.stringify({
+					since,
+					cursor: message.id,
+				} satisfies BackfillCheckpoint),
+			);
+		}
+		await onProgress(progress);
+	}
+
+	deleteState(checkpointKey);
+	return progress;
+};
+
+/**
+ * Resolve the channel to backfill from the options of a command.
+ * @param interaction interaction of the command
+ * @returns channel, or undefined if the channel cannot be backfilled
+ */
+const resolveChannel = async (
+	interaction: ChatInputCommandInteraction,
+): Promise<GuildTextBasedChannel | undefined> => {
+	const { id } = interaction.options.getChannel("channel", true);
+	const channel = await interaction.guild?.channels.fetch(id);
+	if (!(channel?.isTextBased() && isEnabledChannel(channel))) {
+		return;
+	}
+	return channel;
+};
+
+/**
+ * Subcommand to create embeds for messages posted before the bot joined or while it was offline.
+ */
+export const backfillSubcommand: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandBuilder()
+		.setName("backfill")
+		.setDescription("Create embeds for past messages in a channel (admin only)")
+		.addChannelOption((option) =>
+			option
+				.setName("channel")
+				.setDescription("Channel to backfill")
+				.setRequired(true)
+				.addChannelTypes(
+					ChannelType.GuildText,
+					ChannelType.GuildAnnouncement,
+					ChannelType.GuildVoice,
+					ChannelType.PublicThread,
+					ChannelType.PrivateThread,
+					ChannelType.AnnouncementThread,
+				),
+		)
+		.addStringOption((option) =>
+			option
+				.setName("since")
+				.setDescription("Date to backfill from, e.g. 2024-01-31")
+				.setRequired(true),
+		),
+	execute: async (interaction) => {
+		// subcommands cannot have their own default permissions, so check them here
+		if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+			await interaction.reply({
+				content: "You need the Manage Server permission to backfill.",
+				ephemeral: true,
+			});
+			return;
+		}
+		const sinceTime = Date.parse(interaction.options.getString("since", true));
+		// snowflakes cannot represent times before the epoch of Discord in 2015
+		if (
+			Number.isNaN(sinceTime) ||
+			sinceTime < Number(SnowflakeUtil.epoch) ||
+			sinceTime > Date.now()
+		) {
+			await interaction.reply({
+				content: "Specify a past date since 2015 like `2024-01-31`.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		await interaction.deferReply({ ephemeral: true });
+		const channel = await resolveChannel(interaction);
+		if (!channel) {
+			await interaction.editReply(
+				"The bot is not enabled in this channel, or cannot read it.",
+			);
+			return;
+		}
+		if (runningChannelIds.has(channel.id)) {
+			await interaction.editReply(
+				`A backfill of ${channel} is already running.`,
+			);
+			return;
+		}
+
+		let lastReportedAt = 0;
+		const report = async (content: string) => {
+			if (
+				Date.now() - interaction.createdTimestamp >
+				interactionTokenLifetime
+			) {
+				return;
+			}
+			lastReportedAt = Date.now();
+			await interaction.editReply(content);
+		};
+		const formatProgress = ({ scanned, updated, cursor }: BackfillProgress) =>
+			`scanned ${scanned} messages and updated ${updated} messages up to ${time(
+				new Date(SnowflakeUtil.timestampFrom(cursor)),
+			)}`;
+
+		runningChannelIds.add(channel.id);
+		try {
+			await report(`Backfilling ${channel}...`);
+			const progress = await backfillChannel(
+				channel,
+				SnowflakeUtil.generate({ timestamp: sinceTime }).toString(),
+				async (progress) => {
+					if (Date.now() - lastReportedAt >= progressInterval) {
+						await report(
+							`Backfilling ${channel}... ${formatProgress(progress)}.`,
+						);
+					}
+				},
+			);
+			consola.info(`Backfilled ${channel.id}: ${formatProgress(progress)}.`);
+			await report(`Backfilled ${channel}: ${formatProgress(progress)}.`);
+		} catch (error) {
+			consola.error(`Failed to backfill ${channel.id}.`);
+			// do not use consola#error to throw Error since it cannot handle line numbers correctly
+			console.error(error);
+			await report(
+				`Backfill of ${channel} was interrupted. Run the command again with the same date to resume.`,
+			);
+		} finally {
+			runningChannelIds.delete(channel.id);
+		}
+	},
+};
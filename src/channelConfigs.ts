@@ -0,0 +1,160 @@
+import { database } from "./database";
+
+/**
+ * Level of details shown in embeds.
+ * `standard` uses the rendering options in the guild settings as is.
+ */
+export type DetailLevel = "compact" | "standard" | "detailed";
+
+/**
+ * Behavior of the bot in a channel, configured by `/drive config`.
+ */
+export type ChannelConfig = {
+	/**
+	 * Whether the bot acts in the channel.
+	 */
+	enabled: boolean;
+	/**
+	 * Whether to suppress default embeds of Google Drive links in source messages.
+	 */
+	suppress: boolean;
+	detail: DetailLevel;
+	/**
+	 * Whether to send embeds messages as replies to source messages.
+	 */
+	reply: boolean;
+};
+
+database.exec(`
+	CREATE TABLE IF NOT EXISTS channel_configs (
+		channel_id TEXT PRIMARY KEY,
+		guild_id TEXT NOT NULL,
+		enabled INTEGER,
+		suppress INTEGER,
+		detail TEXT,
+		reply INTEGER
+	);
+	CREATE INDEX IF NOT EXISTS channel_configs_guild_id ON channel_configs (guild_id);
+`);
+
+type ChannelConfigRow = {
+	channelId: string;
+	enabled: number | null;
+	suppress: number | null;
+	detail: DetailLevel | null;
+	reply: number | null;
+};
+
+const selectConfigQuery = database.query<
+	ChannelConfigRow,
+	{ channelId: string }
+>(
+	"SELECT channel_id AS channelId, enabled, suppress, detail, reply FROM channel_configs WHERE channel_id = $channelId",
+);
+const selectGuildConfigsQuery = database.query<
+	ChannelConfigRow,
+	{ guildId: string }
+>(
+	"SELECT channel_id AS channelId, enabled, suppress, detail, reply FROM channel_configs WHERE guild_id = $guildId",
+);
+const upsertConfigQuery = database.query<
+	never,
+	{
+		channelId: string;
+		guildId: string;
+		enabled: number | null;
+		suppress: number | null;
+		detail: DetailLevel | null;
+		reply: number | null;
+	}
+>(
+	// keep the current values of unspecified settings
+	"INSERT INTO channel_configs (channel_id, guild_id, enabled, suppress, detail, reply) VALUES ($channelId, $guildId, $enabled, $suppress, $detail, $reply) ON CONFLICT (channel_id) DO UPDATE SET enabled = COALESCE(excluded.enabled, enabled), suppress = COALESCE(excluded.suppress, suppress), detail = COALESCE(excluded.detail, detail), reply = COALESCE(excluded.reply, reply)",
+);
+const deleteConfigQuery = database.query<never, { channelId: string }>(
+	"DELETE FROM channel_configs WHERE channel_id = $channelId",
+);
+
+/**
+ * Convert a row of the table into a partial config.
+ * @param row row of the table
+ * @returns config with only configured settings
+ */
+const toChannelConfig = ({
+	enabled,
+	suppress,
+	detail,
+	reply,
+}: ChannelConfigRow): Partial<ChannelConfig> => ({
+	...(enabled === null ? {} : { enabled: enabled === 1 }),
+	...(suppress === null ? {} : { suppress: suppress === 1 }),
+	...(detail === null ? {} : { detail }),
+	...(reply === null ? {} : { reply: reply === 1 }),
+});
+
+/**
+ * Convert an optional boolean into a value of the table.
+ * @param value boolean, or undefined if not specified
+ * @returns 1 or 0, or null if not specified
+ */
+const toInteger = (value: boolean | undefined): number | null => {
+	if (value === undefined) {
+		return null;
+	}
+	return value ? 1 : 0;
+};
+
+/**
+ * Find the config of a channel or a category.
+ * @param channelId ID of the channel or the category
+ * @returns configured settings, which are empty if not configured
+ */
+export const findChannelConfig = (
+	channelId: string,
+): Partial<ChannelConfig> => {
+	const row = selectConfigQuery.get({ channelId });
+	return row ? toChannelConfig(row) : {};
+};
+
+/**
+ * Find the configs of all channels and categories in a guild.
+ * @param guildId ID of the guild
+ * @returns configured settings keyed by channel IDs
+ */
+export const findGuildChannelConfigs = (
+	guildId: string,
+): Map<string, Partial<ChannelConfig>> =>
+	new Map(
+		selectGuildConfigsQuery
+			.all({ guildId })
+			.map((row) => [row.channelId, toChannelConfig(row)]),
+	);
+
+/**
+ * Save settings of a channel or a category, keeping the other settings.
+ * @param channelId ID of the channel or the category
+ * @param guildId ID of the guild
+ * @param config settings to save
+ */
+export const saveChannelConfig = (
+	channelId: string,
+	guildId: string,
+	{ enabled, suppress, detail, reply }: Partial<ChannelConfig>,
+) => {
+	upsertConfigQuery.run({
+		channelId,
+		guildId,
+		enabled: toInteger(enabled),
+		suppress: toInteger(suppress),
+		detail: detail ?? null,
+		reply: toInteger(reply),
+	});
+};
+
+/**
+ * Delete all settings of a channel or a category.
+ * @param channelId ID of the channel or the category
+ */
+export const deleteChannelConfig = (channelId: string) => {
+	deleteConfigQuery.run({ channelId });
+};
@@ -1,42 +1,22 @@
-import { env } from "bun";
 import { consola } from "consola";
 import {
 	type Client,
+	type Guild,
 	OAuth2Scopes,
 	PermissionFlagsBits,
 	PermissionsBitField,
 } from "discord.js";
+import { type GuildSettings, guildSettings } from "./guilds";
 
 /**
- * Check if all required environment variables are set.
- */
-export const checkEnvs = () => {
-	// need to sync with env.d.ts
-	const requiredEnvs = [
-		"DISCORD_BOT_TOKEN",
-		"DISCORD_GUILD_ID",
-		"GOOGLE_SERVICE_ACCOUNT_EMAIL",
-		"GOOGLE_SERVICE_ACCOUNT_KEY",
-	];
-	const missingEnv = requiredEnvs.filter((name) => !env[name]);
-	if (missingEnv.length === 0) {
-		return;
-	}
-	consola.error(
-		`Environment variables ${missingEnv.join(
-			", ",
-		)} are not set. Follow the instructions in README.md and set them in .env.`,
-	);
-	process.exit(1);
-};
-
-/**
- * Check the status of the bot are valid.
+ * Check the status of the bot are valid in each allowed guild.
+ * Misconfigured guilds are reported, but do not stop the bot.
  * @param client client after ready event
+ * @returns IDs of guilds where the bot is ready to be used
  */
-
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: ignore for now
-export const checkBotStatus = async (client: Client<true>) => {
+export const checkBotStatus = async (
+	client: Client<true>,
+): Promise<string[]> => {
 	const requiredPermissions = [
 		PermissionFlagsBits.ViewChannel,
 		PermissionFlagsBits.SendMessages,
@@ -48,12 +28,6 @@ export const checkBotStatus = async (client: Client<true>) => {
 		PermissionFlagsBits.ManageMessages,
 	];
 
-	const guilds = client.guilds.cache;
-	const isInTargetGuild = guilds.has(env.DISCORD_GUILD_ID);
-
-	const bot = await guilds.get(env.DISCORD_GUILD_ID)?.members.fetchMe();
-	const missingPermissions = bot?.permissions.missing(requiredPermissions);
-
 	const application = await client.application.fetch();
 	const botSettingsUrl = `https://discord.com/developers/applications/${application.id}/bot`;
 	if (application.botPublic) {
@@ -62,28 +36,8 @@ export const checkBotStatus = async (client: Client<true>) => {
 		);
 	}
 	if (application.botRequireCodeGrant) {
-		if (
-			!(isInTargetGuild && missingPermissions) ||
-			missingPermissions.length > 0
-		) {
-			if (isInTargetGuild) {
-				consola.error(
-					`Bot is missing the following required permissions: ${
-						!missingPermissions || missingPermissions.join(", ")
-					}.`,
-				);
-			} else {
-				consola.error(
-					`Bot is not in the target guild ${env.DISCORD_GUILD_ID}.`,
-				);
-			}
-			consola.error(
-				`The bot authorization URL cannot be generated because the bot requires OAuth2 code grant. Disable it from ${botSettingsUrl} and try again.`,
-			);
-			process.exit(1);
-		}
 		consola.warn(
-			`Bot requires OAuth2 code grant. It is unnecessary for this bot. Consider disabling it from ${botSettingsUrl}.`,
+			`Bot requires OAuth2 code grant. It is unnecessary for this bot, and the bot authorization URL cannot be generated. Consider disabling it from ${botSettingsUrl}.`,
 		);
 	}
 
@@ -100,34 +54,106 @@ export const checkBotStatus = async (client: Client<true>) => {
 		);
 	}
 
-	if (!isInTargetGuild) {
-		// exit if the bot is not in the target guild
+	await leaveUnauthorizedGuilds(client);
+
+	const guilds = client.guilds.cache;
+
+	const problems = new Map<string, string[]>();
+	for (const [guildId, settings] of guildSettings) {
+		const guildProblems = await checkGuild(
+			guilds.get(guildId),
+			settings,
+			requiredPermissions,
+		);
+		if (guildProblems.length > 0) {
+			problems.set(guildId, guildProblems);
+		}
+	}
+
+	for (const [guildId, guildProblems] of problems) {
 		consola.error(
-			`Bot is not in the target guild ${env.DISCORD_GUILD_ID}. ${
-				authorizationUrl
-					? `Follow this link to add the bot to the guild: ${authorizationUrl}`
-					: `Bot requires OAuth2 code grant. It is unnecessary for this bot. Consider disabling it from ${botSettingsUrl}.`
-			}`,
+			`Guild ${
+				guilds.get(guildId)?.name ?? "(not joined)"
+			} (${guildId}) is misconfigured:\n${guildProblems
+				.map((problem) => `  - ${problem}`)
+				.join("\n")}`,
 		);
+	}
+	if (problems.size > 0) {
 		consola.error(
-			`Bot requires OAuth2 code grant. It is unnecessary for this bot. Consider disabling it from ${botSettingsUrl}.`,
+			authorizationUrl
+				? `Follow this link to add the bot to the guilds or update its permissions: ${authorizationUrl}`
+				: `Disable OAuth2 code grant from ${botSettingsUrl} to generate the bot authorization URL.`,
 		);
-		process.exit(1);
 	}
 
-	// exit if the bot is missing some required permissions
-	if (!missingPermissions || missingPermissions.length > 0) {
-		consola.error(
-			`Bot is missing the following required permissions: ${
-				!missingPermissions || missingPermissions.join(", ")
-			}. Follow this link to update the permissions: ${authorizationUrl}`,
+	const readyGuildIds = [...guildSettings.keys()].filter(
+		(id) => !problems.has(id),
+	);
+	if (readyGuildIds.length === 0) {
+		consola.error("Bot is not ready to be used in any guild.");
+	}
+	return readyGuildIds;
+};
+
+/**
+ * Check the status of the bot in a guild.
+ * @param guild guild to check, or undefined if the bot is not in the guild
+ * @param settings settings of the guild
+ * @param requiredPermissions permissions required in the guild and enabled channels
+ * @returns descriptions of problems, or an empty array if the guild is valid
+ */
+const checkGuild = async (
+	guild: Guild | undefined,
+	settings: GuildSettings,
+	requiredPermissions: bigint[],
+): Promise<string[]> => {
+	if (!guild) {
+		return ["Bot is not in the guild."];
+	}
+
+	const bot = await guild.members.fetchMe();
+	const problems: string[] = [];
+
+	const missingPermissions = bot.permissions.missing(requiredPermissions);
+	if (missingPermissions.length > 0) {
+		problems.push(
+			`Bot is missing the following required permissions: ${missingPermissions.join(
+				", ",
+			)}.`,
 		);
-		process.exit(1);
 	}
 
-	// leave unauthorized guilds
-	for (const [id, guild] of guilds) {
-		if (id !== env.DISCORD_GUILD_ID) {
+	for (const channelId of settings.channels ?? []) {
+		const channel = guild.channels.cache.get(channelId);
+		if (!channel) {
+			problems.push(`Enabled channel ${channelId} is not found.`);
+			continue;
+		}
+		const missingChannelPermissions = channel
+			.permissionsFor(bot)
+			.missing(requiredPermissions)
+			// skip permissions missing in the guild level to avoid duplicate reports
+			.filter((permission) => !missingPermissions.includes(permission));
+		if (missingChannelPermissions.length > 0) {
+			problems.push(
+				`Bot is missing the following required permissions in #${
+					channel.name
+				} (${channelId}): ${missingChannelPermissions.join(", ")}.`,
+			);
+		}
+	}
+
+	return problems;
+};
+
+/**
+ * Leave guilds not allowed in the guild settings.
+ * @param client client after ready event
+ */
+const leaveUnauthorizedGuilds = async (client: Client<true>) => {
+	for (const [id, guild] of client.guilds.cache) {
+		if (!guildSettings.has(id)) {
 			await guild.leave();
 			consola.warn(`Left unauthorized guild ${guild.name} (${id}).`);
 		}
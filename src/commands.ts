@@ -1,25 +1,49 @@
-import { env } from "bun";
 import { consola } from "consola";
 import {
 	ApplicationCommandType,
+	type AutocompleteInteraction,
+	type ButtonInteraction,
 	type ChatInputCommandInteraction,
 	type Client,
+	ComponentType,
 	ContextMenuCommandBuilder,
 	type Interaction,
+	type MessageComponentInteraction,
 	type MessageContextMenuCommandInteraction,
 	type RESTPostAPIChatInputApplicationCommandsJSONBody,
 	type RESTPostAPIContextMenuApplicationCommandsJSONBody,
 	type RESTPutAPIApplicationGuildCommandsJSONBody,
 	Routes,
+	SlashCommandBuilder,
+	type SlashCommandSubcommandBuilder,
+	SlashCommandSubcommandGroupBuilder,
+	type StringSelectMenuInteraction,
 	type UserContextMenuCommandInteraction,
 } from "discord.js";
+import { auditSubcommand } from "./audit";
+import { backfillSubcommand } from "./backfill";
+import { configSubcommandGroup } from "./configure";
+import { displayButton, refreshButton, removeButton } from "./controls";
 import { updateEmbedsMessage } from "./embeds";
+import { folderButton } from "./folders";
+import { invalidateFile } from "./gdrive";
+import { guildSettings } from "./guilds";
+import { extractDriveLinks } from "./links";
+import { dismissButton, retryButton } from "./notices";
+import { revisionsSelectMenu, showRevisionsCommand } from "./revisions";
+import { searchSubcommand } from "./search";
+import { parseCustomId } from "./util/customId";
+import { unwatchSubcommand, watchSubcommand } from "./watch";
 
-type ExecutableCommand =
+/**
+ * Application command with its handler.
+ */
+export type ExecutableCommand =
 	| {
 			type: ApplicationCommandType.ChatInput;
 			data: RESTPostAPIChatInputApplicationCommandsJSONBody;
 			execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+			autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
 	  }
 	| {
 			type: ApplicationCommandType.Message;
@@ -36,10 +60,93 @@ type ExecutableCommand =
 			) => Promise<void>;
 	  };
 
+/**
+ * Subcommand or subcommand group of the `/drive` command.
+ * Subcommand groups dispatch their subcommands by themselves.
+ */
+export type ExecutableSubcommand = {
+	data: SlashCommandSubcommandBuilder | SlashCommandSubcommandGroupBuilder;
+	execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+	autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
+};
+
+/**
+ * Handler of message components.
+ * Custom IDs of the components are created by `createCustomId` with the prefix.
+ */
+export type ExecutableComponent =
+	| {
+			type: ComponentType.Button;
+			prefix: string;
+			execute: (
+				interaction: ButtonInteraction,
+				args: string[],
+			) => Promise<void>;
+	  }
+	| {
+			type: ComponentType.StringSelect;
+			prefix: string;
+			execute: (
+				interaction: StringSelectMenuInteraction,
+				args: string[],
+			) => Promise<void>;
+	  };
+
+/**
+ * Subcommands of the `/drive` command.
+ */
+const driveSubcommands: ExecutableSubcommand[] = [
+	searchSubcommand,
+	backfillSubcommand,
+	configSubcommandGroup,
+	watchSubcommand,
+	unwatchSubcommand,
+	auditSubcommand,
+];
+
+const driveCommandBuilder = new SlashCommandBuilder()
+	.setName("drive")
+	.setDescription("Google Drive commands");
+for (const { data } of driveSubcommands) {
+	if (data instanceof SlashCommandSubcommandGroupBuilder) {
+		driveCommandBuilder.addSubcommandGroup(data);
+	} else {
+		driveCommandBuilder.addSubcommand(data);
+	}
+}
+
+/**
+ * Find the subcommand of the `/drive` command invoked by an interaction.
+ * @param interaction interaction of the `/drive` command
+ * @returns subcommand
+ */
+const findDriveSubcommand = (
+	interaction: ChatInputCommandInteraction | AutocompleteInteraction,
+): ExecutableSubcommand => {
+	const name =
+		interaction.options.getSubcommandGroup() ??
+		interaction.options.getSubcommand();
+	const subcommand = driveSubcommands.find(({ data }) => data.name === name);
+	if (!subcommand) {
+		throw new Error(`Subcommand ${name} not found.`);
+	}
+	return subcommand;
+};
+
 /**
  * Application commands registered to the bot.
  */
 export const commands: ExecutableCommand[] = [
+	{
+		type: ApplicationCommandType.ChatInput,
+		data: driveCommandBuilder.toJSON(),
+		execute: async (interaction) => {
+			await findDriveSubcommand(interaction).execute(interaction);
+		},
+		autocomplete: async (interaction) => {
+			await findDriveSubcommand(interaction).autocomplete?.(interaction);
+		},
+	},
 	{
 		type: ApplicationCommandType.Message,
 		data: new ContextMenuCommandBuilder()
@@ -48,64 +155,158 @@ export const commands: ExecutableCommand[] = [
 			.toJSON(),
 		execute: async (interaction) => {
 			interaction.deferReply({ ephemeral: true });
+			// fetch the latest metadata instead of the cached one
+			for (const { fileId } of extractDriveLinks(
+				interaction.targetMessage.content,
+			)) {
+				invalidateFile(fileId);
+			}
 			await updateEmbedsMessage(interaction.targetMessage);
 			interaction.deleteReply();
 		},
 	},
+	showRevisionsCommand,
+];
+
+/**
+ * Handlers of message components sent by the bot.
+ */
+export const components: ExecutableComponent[] = [
+	folderButton,
+	revisionsSelectMenu,
+	retryButton,
+	dismissButton,
+	refreshButton,
+	displayButton,
+	removeButton,
 ];
 
 /**
  * Register application commands of the bot to Discord.
  * @param client client used to register commands
+ * @param guildIds IDs of guilds to register commands to
  */
-export const registerCommands = async (client: Client<true>) => {
+export const registerCommands = async (
+	client: Client<true>,
+	guildIds: string[],
+) => {
 	consola.start("Registering application commands...");
-	try {
-		const body: RESTPutAPIApplicationGuildCommandsJSONBody = commands.map(
-			(command) => command.data,
-		);
-		await client.rest.put(
-			// register as guild commands to avoid accessing data from DMs or other guilds
-			Routes.applicationGuildCommands(
-				client.application.id,
-				env.DISCORD_GUILD_ID,
-			),
-			{ body },
-		);
+	const body: RESTPutAPIApplicationGuildCommandsJSONBody = commands.map(
+		(command) => command.data,
+	);
+	// do not parallelize to avoid rate limit
+	for (const guildId of guildIds) {
+		try {
+			await client.rest.put(
+				// register as guild commands to avoid accessing data from DMs or other guilds
+				Routes.applicationGuildCommands(client.application.id, guildId),
+				{ body },
+			);
+			consola.success(
+				`Successfully registered application commands to guild ${guildId}: ${commands
+					.map((command) => command.data.name)
+					.join(", ")}`,
+			);
+		} catch (error) {
+			consola.error(
+				`Failed to register application commands to guild ${guildId}.`,
+			);
+			// do not use consola#error to throw Error since it cannot handle line numbers correctly
+			console.error(error);
+		}
+	}
+};
 
-		consola.success(
-			`Successfully registered application commands: ${commands
-				.map((command) => command.data.name)
-				.join(", ")}`,
-		);
+/**
+ * Execute the handler of a message component interaction.
+ * @param interaction message component interaction
+ */
+const executeComponent = async (interaction: MessageComponentInteraction) => {
+	const { prefix, args } = parseCustomId(interaction.customId);
+	for (const component of components) {
+		if (component.prefix !== prefix) {
+			continue;
+		}
+		if (interaction.isButton() && component.type === ComponentType.Button) {
+			await component.execute(interaction, args);
+			return;
+		}
+		if (
+			interaction.isStringSelectMenu() &&
+			component.type === ComponentType.StringSelect
+		) {
+			await component.execute(interaction, args);
+			return;
+		}
+	}
+	consola.error(`Component ${interaction.customId} not found.`);
+};
+
+/**
+ * Respond to an autocomplete interaction with suggestions.
+ * @param interaction autocomplete interaction
+ */
+const executeAutocomplete = async (interaction: AutocompleteInteraction) => {
+	const command = commands.find(
+		({ data }) => data.name === interaction.commandName,
+	);
+	if (command?.type !== ApplicationCommandType.ChatInput) {
+		consola.error(`Command ${interaction.commandName} not found.`);
+		return;
+	}
+	try {
+		await command.autocomplete?.(interaction);
 	} catch (error) {
-		consola.error("Failed to register application commands.");
+		consola.error(
+			`Failed to respond to autocomplete of command ${interaction.commandName}.`,
+		);
 		// do not use consola#error to throw Error since it cannot handle line numbers correctly
 		console.error(error);
-		// bun does not exit with a thrown error in listener
-		process.exit(1);
+		// respond with no suggestions instead of leaving the user waiting
+		if (!interaction.responded) {
+			await interaction.respond([]);
+		}
 	}
 };
 
 /**
- * Listener for application command interactions.
+ * Listener for application command, autocomplete, and message component interactions.
  */
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: if-else statements are necessary here
 export const commandsListener = async (interaction: Interaction) => {
-	if (!interaction.isCommand()) {
+	if (
+		!(
+			interaction.isCommand() ||
+			interaction.isAutocomplete() ||
+			interaction.isMessageComponent()
+		)
+	) {
 		return;
 	}
 
-	// ignore commands from unauthorized guilds or DMs
-	if (interaction.guildId !== env.DISCORD_GUILD_ID) {
+	// ignore interactions from unauthorized guilds or DMs
+	if (!(interaction.guildId && guildSettings.has(interaction.guildId))) {
 		consola.warn(
-			`Command ${interaction.commandName} was triggered in ${
+			`${
+				interaction.isMessageComponent()
+					? `Component ${interaction.customId}`
+					: `Command ${interaction.commandName}`
+			} was triggered in ${
 				interaction.inGuild() ? "an unauthorized guild" : "DM"
 			}.`,
 		);
 		return;
 	}
 
+	if (interaction.isMessageComponent()) {
+		await executeComponent(interaction);
+		return;
+	}
+	if (interaction.isAutocomplete()) {
+		await executeAutocomplete(interaction);
+		return;
+	}
+
 	for (const command of commands) {
 		if (command.data.name !== interaction.commandName) {
 			continue;
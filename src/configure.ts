@@ -0,0 +1,241 @@
+import {
+	ChannelType,
+	type ChatInputCommandInteraction,
+	type GuildBasedChannel,
+	PermissionFlagsBits,
+	SlashCommandSubcommandBuilder,
+	SlashCommandSubcommandGroupBuilder,
+	channelMention,
+} from "discord.js";
+import {
+	type ChannelConfig,
+	type DetailLevel,
+	deleteChannelConfig,
+	findGuildChannelConfigs,
+	saveChannelConfig,
+} from "./channelConfigs";
+import type { ExecutableSubcommand } from "./commands";
+import { getChannelConfig, guildSettings } from "./guilds";
+
+const detailLevels: DetailLevel[] = ["compact", "standard", "detailed"];
+
+// channels and categories which can be configured
+const configurableChannelTypes = [
+	ChannelType.GuildCategory,
+	ChannelType.GuildText,
+	ChannelType.GuildAnnouncement,
+	ChannelType.GuildVoice,
+	ChannelType.GuildForum,
+	ChannelType.PublicThread,
+	ChannelType.PrivateThread,
+	ChannelType.AnnouncementThread,
+] as const;
+
+/**
+ * Format settings of a channel.
+ * @param config settings of the channel
+ * @returns settings separated by commas
+ */
+const formatConfig = ({
+	enabled,
+	suppress,
+	detail,
+	reply,
+}: Partial<ChannelConfig>): string =>
+	[
+		enabled === undefined ? [] : `enabled: ${enabled}`,
+		suppress === undefined ? [] : `suppress: ${suppress}`,
+		detail === undefined ? [] : `detail: ${detail}`,
+		reply === undefined ? [] : `reply: ${reply}`,
+	]
+		.flat()
+		.join(", ");
+
+/**
+ * Resolve the channel or the category to configure from the options of a command.
+ * @param interaction interaction of the command
+ * @returns specified channel, or the channel where the command is used
+ */
+const resolveTarget = async (
+	interaction: ChatInputCommandInteraction,
+): Promise<GuildBasedChannel | undefined> => {
+	const id =
+		interaction.options.getChannel("channel")?.id ?? interaction.channelId;
+	return (await interaction.guild?.channels.fetch(id)) ?? undefined;
+};
+
+/**
+ * Update settings of a channel or a category.
+ * @param interaction interaction of the `set` subcommand
+ * @param target channel or category to configure
+ */
+const executeSet = async (
+	interaction: ChatInputCommandInteraction,
+	target: GuildBasedChannel,
+) => {
+	const enabled = interaction.options.getBoolean("enabled");
+	const suppress = interaction.options.getBoolean("suppress");
+	const detail = interaction.options.getString("detail") as DetailLevel | null;
+	const reply = interaction.options.getBoolean("reply");
+	const config: Partial<ChannelConfig> = {
+		...(enabled === null ? {} : { enabled }),
+		...(suppress === null ? {} : { suppress }),
+		...(detail === null ? {} : { detail }),
+		...(reply === null ? {} : { reply }),
+	};
+	if (Object.keys(config).length === 0) {
+		await interaction.reply({
+			content: "Specify at least one setting to change.",
+			ephemeral: true,
+		});
+		return;
+	}
+
+	saveChannelConfig(target.id, target.guildId, config);
+	await interaction.reply({
+		content: `Updated the settings of ${target}: ${formatConfig(config)}`,
+		ephemeral: true,
+	});
+};
+
+/**
+ * Show the effective settings of a channel and the configured channels in the guild.
+ * @param interaction interaction of the `show` subcommand
+ * @param target channel or category to show
+ */
+const executeShow = async (
+	interaction: ChatInputCommandInteraction,
+	target: GuildBasedChannel,
+) => {
+	const config = getChannelConfig(target);
+	if (!config) {
+		return;
+	}
+	const configuredLines = [
+		...findGuildChannelConfigs(target.guildId).entries(),
+	].map(
+		([channelId, channelConfig]) =>
+			`- ${channelMention(channelId)}: ${formatConfig(channelConfig)}`,
+	);
+	await interaction.reply({
+		content: [
+			`Settings of ${target}, including ones inherited from its parents:`,
+			`- Enabled: ${config.enabled}`,
+			`- Suppress default embeds: ${config.suppress}`,
+			`- Detail level: ${config.detail}`,
+			`- Reply to messages: ${config.reply}`,
+			"",
+			configuredLines.length > 0
+				? "Configured channels and categories in this server:"
+				: "No channels or categories are configured in this server.",
+			...configuredLines,
+		].join("\n"),
+		ephemeral: true,
+	});
+};
+
+/**
+ * Subcommand group to configure the bot per channel or category.
+ */
+export const configSubcommandGroup: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandGroupBuilder()
+		.setName("config")
+		.setDescription("Configure the bot per channel or category (admin only)")
+		.addSubcommand(
+			new SlashCommandSubcommandBuilder()
+				.setName("set")
+				.setDescription("Change settings of a channel or category")
+				.addChannelOption((option) =>
+					option
+						.setName("channel")
+						.setDescription("Channel or category to configure (default: here)")
+						.addChannelTypes(...configurableChannelTypes),
+				)
+				.addBooleanOption((option) =>
+					option
+						.setName("enabled")
+						.setDescription("Whether the bot creates embeds"),
+				)
+				.addBooleanOption((option) =>
+					option
+						.setName("suppress")
+						.setDescription(
+							"Whether to hide default embeds of Google Drive links",
+						),
+				)
+				.addStringOption((option) =>
+					option
+						.setName("detail")
+						.setDescription("Level of details shown in embeds")
+						.setChoices(
+							detailLevels.map((level) => ({ name: level, value: level })),
+						),
+				)
+				.addBooleanOption((option) =>
+					option
+						.setName("reply")
+						.setDescription("Whether to send embeds as replies to messages"),
+				),
+		)
+		.addSubcommand(
+			new SlashCommandSubcommandBuilder()
+				.setName("show")
+				.setDescription("Show settings of a channel or category")
+				.addChannelOption((option) =>
+					option
+						.setName("channel")
+						.setDescription("Channel or category to show (default: here)")
+						.addChannelTypes(...configurableChannelTypes),
+				),
+		)
+		.addSubcommand(
+			new SlashCommandSubcommandBuilder()
+				.setName("reset")
+				.setDescription(
+					"Reset settings of a channel or category to the defaults",
+				)
+				.addChannelOption((option) =>
+					option
+						.setName("channel")
+						.setDescription("Channel or category to reset (default: here)")
+						.addChannelTypes(...configurableChannelTypes),
+				),
+		),
+	execute: async (interaction) => {
+		// subcommands cannot have their own default permissions, so check them here
+		if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+			await interaction.reply({
+				content: "You need the Manage Server permission to configure the bot.",
+				ephemeral: true,
+			});
+			return;
+		}
+		const target = await resolveTarget(interaction);
+		if (!(target && guildSettings.has(target.guildId))) {
+			await interaction.reply({
+				content: "The channel is not found.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		const subcommand = interaction.options.getSubcommand();
+		if (subcommand === "set") {
+			await executeSet(interaction, target);
+			return;
+		}
+		if (subcommand === "show") {
+			await executeShow(interaction, target);
+			return;
+		}
+		if (subcommand === "reset") {
+			deleteChannelConfig(target.id);
+			await interaction.reply({
+				content: `Reset the settings of ${target} to the defaults.`,
+				ephemeral: true,
+			});
+			return;
+		}
+		throw new Error(`Subcommand config ${subcommand} not found.`);
+	},
+};
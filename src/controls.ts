@@ -0,0 +1,123 @@
+import {
+	type ButtonInteraction,
+	ComponentType,
+	DiscordAPIError,
+	type Message,
+	PermissionFlagsBits,
+	RESTJSONErrorCodes,
+} from "discord.js";
+import type { ExecutableComponent } from "./commands";
+import {
+	controlButtonPrefixes,
+	removeEmbedsMessage,
+	updateEmbedsMessage,
+} from "./embeds";
+import { invalidateFile } from "./gdrive";
+import { extractDriveLinks } from "./links";
+import {
+	deleteEmbedsDisplay,
+	deleteEmbedsMapping,
+	saveEmbedsDisplay,
+} from "./mappings";
+
+/**
+ * Fetch the source message of an embeds message whose button is pressed.
+ * The embeds message is deleted if the source message has been deleted.
+ * @param interaction interaction of the button on the embeds message
+ * @param sourceId ID of the source message
+ * @returns source message, or undefined if deleted
+ */
+const fetchSourceMessage = async (
+	interaction: ButtonInteraction,
+	sourceId: string | undefined,
+): Promise<Message | undefined> => {
+	if (!sourceId) {
+		throw new Error(`Invalid custom ID: ${interaction.customId}`);
+	}
+	const sourceMessage = await interaction.message.channel.messages
+		.fetch(sourceId)
+		.catch((error) => {
+			if (
+				error instanceof DiscordAPIError &&
+				error.code === RESTJSONErrorCodes.UnknownMessage
+			) {
+				return undefined;
+			}
+			throw error;
+		});
+	if (!sourceMessage) {
+		// the source message was deleted while the bot was offline
+		await interaction.message.delete();
+		deleteEmbedsMapping(sourceId);
+		deleteEmbedsDisplay(sourceId);
+	}
+	return sourceMessage;
+};
+
+/**
+ * Button to update the embeds with the latest metadata of the files.
+ */
+export const refreshButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: controlButtonPrefixes.refresh,
+	execute: async (interaction, [sourceId]) => {
+		await interaction.deferUpdate();
+		const sourceMessage = await fetchSourceMessage(interaction, sourceId);
+		if (!sourceMessage) {
+			return;
+		}
+		// fetch the latest metadata instead of the cached one
+		for (const { fileId } of extractDriveLinks(sourceMessage.content)) {
+			invalidateFile(fileId);
+		}
+		await updateEmbedsMessage(sourceMessage);
+	},
+};
+
+/**
+ * Button to collapse the embeds into a single line of links, or expand them again.
+ */
+export const displayButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: controlButtonPrefixes.display,
+	execute: async (interaction, [sourceId, display]) => {
+		if (!(display === "expanded" || display === "collapsed")) {
+			throw new Error(`Invalid custom ID: ${interaction.customId}`);
+		}
+		await interaction.deferUpdate();
+		const sourceMessage = await fetchSourceMessage(interaction, sourceId);
+		if (!sourceMessage) {
+			return;
+		}
+		saveEmbedsDisplay(sourceMessage.id, display);
+		await updateEmbedsMessage(sourceMessage);
+	},
+};
+
+/**
+ * Button to delete the embeds message and restore the default embeds of the source message.
+ * Only the author of the source message or members with the Manage Messages permission can use it.
+ */
+export const removeButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: controlButtonPrefixes.remove,
+	execute: async (interaction, [sourceId]) => {
+		await interaction.deferUpdate();
+		const sourceMessage = await fetchSourceMessage(interaction, sourceId);
+		if (!sourceMessage) {
+			return;
+		}
+		if (
+			interaction.user.id !== sourceMessage.author.id &&
+			!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)
+		) {
+			await interaction.followUp({
+				content:
+					"Only the author of the message or members with the Manage Messages permission can remove these embeds.",
+				ephemeral: true,
+			});
+			return;
+		}
+		await removeEmbedsMessage(sourceMessage);
+	},
+};
@@ -0,0 +1,57 @@
+import { Database } from "bun:sqlite";
+import { config } from "./config";
+
+/**
+ * SQLite database to persist the state of the bot across restarts.
+ */
+export const database = new Database(config.databasePath, {
+	create: true,
+	// throw errors instead of returning undefined for missing parameters
+	strict: true,
+});
+// improve performance of concurrent reads and writes
+// ref: https://bun.sh/docs/api/sqlite#wal-mode
+database.exec("PRAGMA journal_mode = WAL;");
+database.exec("PRAGMA foreign_keys = ON;");
+
+database.exec(`
+	CREATE TABLE IF NOT EXISTS states (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL
+	);
+`);
+
+const selectStateQuery = database.query<{ value: string }, { key: string }>(
+	"SELECT value FROM states WHERE key = $key",
+);
+const upsertStateQuery = database.query<never, { key: string; value: string }>(
+	"INSERT INTO states (key, value) VALUES ($key, $value) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+);
+const deleteStateQuery = database.query<never, { key: string }>(
+	"DELETE FROM states WHERE key = $key",
+);
+
+/**
+ * Get a persisted state of the bot.
+ * @param key key of the state
+ * @returns value of the state, or undefined if not set
+ */
+export const getState = (key: string): string | undefined =>
+	selectStateQuery.get({ key })?.value;
+
+/**
+ * Persist a state of the bot.
+ * @param key key of the state
+ * @param value value of the state
+ */
+export const setState = (key: string, value: string) => {
+	upsertStateQuery.run({ key, value });
+};
+
+/**
+ * Delete a persisted state of the bot.
+ * @param key key of the state
+ */
+export const deleteState = (key: string) => {
+	deleteStateQuery.run({ key });
+};
@@ -1,49 +1,94 @@
 import type { drive_v3 } from "@googleapis/drive";
-import { deepMatch, sleep } from "bun";
+import { deepMatch } from "bun";
+import { consola } from "consola";
 import {
+	type APIActionRowComponent,
+	type APIButtonComponent,
+	type APIEmbed,
+	type APIEmbedField,
+	ActionRowBuilder,
+	type AttachmentPayload,
+	ButtonBuilder,
+	ButtonStyle,
+	DiscordAPIError,
+	type EmbedAuthorOptions,
 	EmbedBuilder,
+	type GuildTextBasedChannel,
 	type Message,
 	type MessageCreateOptions,
 	type MessageEditOptions,
 	MessageFlags,
 	MessageFlagsBitField,
 	type PartialMessage,
+	RESTJSONErrorCodes,
+	escapeMarkdown,
+	hideLinkEmbed,
+	hyperlink,
 	isJSONEncodable,
 } from "discord.js";
-import { GaxiosError } from "gaxios";
 import normalizeUrl, {
 	type Options as NormalizeUrlOptions,
 } from "normalize-url";
-import { driveClient, fileTypes } from "./gdrive";
+import { applyAccessPolicy } from "./access";
+import {
+	type AuditAction,
+	findLatestAuditActions,
+	recordAuditEvents,
+} from "./auditEvents";
+import type { ChannelConfig } from "./channelConfigs";
+import { fileTypes, getFileType } from "./fileTypes";
+import { createFolderPage } from "./folders";
+import {
+	folderMimeType,
+	getFile,
+	getFolderPath,
+	getThumbnail,
+	shortcutMimeType,
+} from "./gdrive";
+import {
+	type RenderingOptions,
+	getChannelConfig,
+	getRenderingOptions,
+} from "./guilds";
+import { type DriveLink, extractDriveLinks } from "./links";
+import {
+	type EmbedsDisplay,
+	deleteEmbedsDisplay,
+	deleteEmbedsMapping,
+	findEmbedsMapping,
+	getEmbedsDisplay,
+	saveEmbedsDisplay,
+	saveEmbedsMapping,
+} from "./mappings";
+import { embedsMessagesCounter } from "./metrics";
+import { createCustomId } from "./util/customId";
 import { appendInvisible, decodeAppendedInvisible } from "./util/invisible";
+import { escapeLinkText } from "./util/markdown";
+import { createKeyedQueue } from "./util/queue";
 
 /**
- * Extract Google Drive file IDs from a string.
- * @param content string to extract file IDs from
- * @returns array of URLs and file IDs
- */
-const extractFileIds = (content: string): { url: string; fileId: string }[] => {
-	// file ID is the path segment after d (files), e (forms), or folders
-	// ref: https://github.com/spamscanner/url-regex-safe/blob/6c1e2c3b5557709633a2cc971d599469ea395061/src/index.js#L80
-	// ref: https://stackoverflow.com/questions/16840038/easiest-way-to-get-file-id-from-url-on-google-apps-script
-	const regex =
-		/https?:\/\/(?:drive|docs)\.google\.com\/[^\s'"\)]+\/(?:d|e|folders)\/([-\w]{25,})(?:\/[^\s'"\)]*[^\s"\)'.?!])?/g;
-	return [...content.matchAll(regex)].map(([url, id]) => ({
-		url,
-		// biome-ignore lint/style/noNonNullAssertion: the first matching group is always defined if the regex matches
-		fileId: id!,
-	}));
+ * Decode the ID of the source message hidden in an embeds message.
+ * @param embedsMessage message sent by the bot
+ * @returns ID of the source message, or an empty string if not an embeds message
+ */
+export const decodeSourceId = ({ embeds, content }: Message): string => {
+	try {
+		// hidden in the title of the first embed, or in the content if collapsed
+		return decodeAppendedInvisible(embeds[0]?.title ?? content);
+	} catch {
+		// other messages of the bot might have invisible characters followed by visible ones
+		return "";
+	}
 };
 
 /**
- * Retrieve the old embeds message of a source message.
+ * Scan the history after a source message for its old embeds message.
+ * Used for source messages sent before their mappings were recorded.
  * @param message source message
- * @param maxRetries maximum number of retries to retrieve the old embeds message
  * @returns old embeds message, or undefined if not found
  */
-const retrieveOldEmbedsMessage = async (
+const scanOldEmbedsMessage = async (
 	message: Message | PartialMessage,
-	maxRetries = 0,
 ): Promise<Message | undefined> => {
 	const {
 		channel,
@@ -57,90 +102,569 @@ const retrieveOldEmbedsMessage = async (
 		after: sourceId,
 		limit: 10,
 	});
-	const oldEmbedsMessage = history
-		.filter((message) => message.author.id === botUserId)
-		// oldest to newest because we want to get the message nearest to the source message
-		.sort((a, b) => a.createdTimestamp - b.createdTimestamp)
-		.find(({ embeds }) => {
-			// source message ID is hidden in the title of the first embed
-			const firstEmbed = embeds[0];
-			// ignore messages without embeds
-			if (!firstEmbed?.title) {
-				return false;
+	return (
+		history
+			.filter((message) => message.author.id === botUserId)
+			// oldest to newest because we want to get the message nearest to the source message
+			.sort((a, b) => a.createdTimestamp - b.createdTimestamp)
+			.find((message) => sourceId === decodeSourceId(message))
+	);
+};
+
+/**
+ * Retrieve the old embeds message of a source message.
+ * Look up the recorded mapping first, and fall back to scanning the history.
+ * @param message source message
+ * @returns old embeds message, or undefined if not found
+ */
+const retrieveOldEmbedsMessage = async (
+	message: Message | PartialMessage,
+): Promise<Message | undefined> => {
+	const mapping = findEmbedsMapping(message.id);
+	if (!mapping) {
+		return await scanOldEmbedsMessage(message);
+	}
+
+	const oldEmbedsMessage = await message.channel.messages
+		.fetch(mapping.embedsMessageId)
+		.catch((error) => {
+			// the embeds message might be deleted manually
+			if (
+				error instanceof DiscordAPIError &&
+				error.code === RESTJSONErrorCodes.UnknownMessage
+			) {
+				return undefined;
 			}
-			return sourceId === decodeAppendedInvisible(firstEmbed.title);
+			throw error;
 		});
-	if (oldEmbedsMessage || !maxRetries) {
-		return oldEmbedsMessage;
+	if (!oldEmbedsMessage) {
+		deleteEmbedsMapping(message.id);
 	}
+	return oldEmbedsMessage;
+};
 
-	// retry after 1 second if the message is not found
-	await sleep(1000);
-	return await retrieveOldEmbedsMessage(message, maxRetries - 1);
+/**
+ * Format a number of bytes into a human-readable string.
+ * @param bytes number of bytes
+ * @returns formatted string, e.g. `1.5 MB`
+ */
+const formatBytes = (bytes: number): string => {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	const exponent = Math.min(
+		Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)),
+		units.length - 1,
+	);
+	const value = bytes / 1024 ** exponent;
+	return `${exponent === 0 ? value : value.toFixed(1)} ${units[exponent]}`;
 };
 
 /**
- * Create an embeds message from a source message.
- * @param message source message
- * @returns embeds message, or undefined if no embeds are created
+ * Create embed fields of a file.
+ * @param file metadata of the file
+ * @param rendering options to render the fields
+ * @returns embed fields
  */
-const createEmbedsMessage = async (
-	fileIds: string[],
-	sourceId: string,
-): Promise<(MessageCreateOptions & MessageEditOptions) | undefined> => {
-	const files = await Promise.all(
-		fileIds.map((id) =>
-			driveClient.files
-				.get({
-					fileId: id,
-					// docs: https://developers.google.com/drive/api/guides/fields-parameter
-					fields: "name,webViewLink,mimeType,modifiedTime",
-				})
-				.then(({ data }) => data)
-				.catch((error) => {
-					// ignore not found errors because the file might no be shared with the bot
-					if (
-						error instanceof GaxiosError &&
-						error.response?.data.error.errors.some(
-							({ reason }: { reason: string }) => reason === "notFound",
-						)
-					) {
-						return undefined;
+const createFields = (
+	{ size, owners, lastModifyingUser }: drive_v3.Schema$File,
+	rendering: RenderingOptions,
+): APIEmbedField[] => {
+	const fields: APIEmbedField[] = [];
+	const ownerNames =
+		owners?.flatMap(({ displayName }) => displayName ?? []) ?? [];
+	if (rendering.owners && ownerNames.length > 0) {
+		fields.push({
+			name: ownerNames.length > 1 ? "Owners" : "Owner",
+			value: ownerNames.join(", "),
+			inline: true,
+		});
+	}
+	if (rendering.lastModifyingUser && lastModifyingUser?.displayName) {
+		fields.push({
+			name: "Last modified by",
+			value: lastModifyingUser.displayName,
+			inline: true,
+		});
+	}
+	// only binary files have sizes
+	if (rendering.fileSize && size) {
+		fields.push({
+			name: "Size",
+			value: formatBytes(Number(size)),
+			inline: true,
+		});
+	}
+	return fields;
+};
+
+/**
+ * Create the embed author of a file, which shows its parent folders and icon.
+ * @param file file to create the author of
+ * @param rendering options to render the author
+ * @returns embed author, or null if nothing to show
+ */
+const createAuthor = async (
+	{ id, data: { iconLink, parents }, rootFolderIds }: EmbedFile,
+	rendering: RenderingOptions,
+): Promise<EmbedAuthorOptions | null> => {
+	const parentId = parents?.[0];
+	// do not reveal folders outside the allowed ones
+	const path =
+		rendering.path && parentId && !rootFolderIds?.includes(id)
+			? await getFolderPath(parentId, rootFolderIds)
+			: [];
+	const iconUrl = rendering.icon ? iconLink : undefined;
+	if (!(path.length > 0 || iconUrl)) {
+		return null;
+	}
+	return {
+		name: path.length > 0 ? path.join(" › ") : "Google Drive",
+		...(iconUrl
+			? // biome-ignore lint/style/useNamingConvention: library's naming convention
+				{ iconURL: iconUrl }
+			: {}),
+	};
+};
+
+/**
+ * File to create an embed of.
+ */
+export type EmbedFile = {
+	id: string;
+	/**
+	 * Metadata of the file, or of the shortcut if its target is not accessible.
+	 */
+	data: drive_v3.Schema$File;
+	/**
+	 * Metadata of the shortcut which the file is linked via, if any.
+	 */
+	shortcut?: drive_v3.Schema$File;
+	/**
+	 * Whether the file is outside the folders allowed in the channel, to show a neutral card instead.
+	 */
+	restricted?: boolean;
+	/**
+	 * IDs of the folders allowed in the channel, above which the path of the file is not shown.
+	 */
+	rootFolderIds?: string[];
+};
+
+/**
+ * Resolve a shortcut into its target file.
+ * @param file ID and metadata of a file, fetched by `getFile`
+ * @returns target file if the file is an accessible shortcut, otherwise the file itself
+ */
+export const resolveShortcut = async (file: {
+	id: string;
+	data: drive_v3.Schema$File;
+}): Promise<EmbedFile> => {
+	const { mimeType, shortcutDetails } = file.data;
+	if (mimeType !== shortcutMimeType || !shortcutDetails?.targetId) {
+		return file;
+	}
+	const target = await getFile(
+		shortcutDetails.targetId,
+		shortcutDetails.targetResourceKey ?? undefined,
+	);
+	// keep the shortcut to show that the target is not accessible
+	return target
+		? { id: shortcutDetails.targetId, data: target, shortcut: file.data }
+		: { ...file, shortcut: file.data };
+};
+
+/**
+ * Create an embed of a shortcut whose target is not accessible.
+ * @param shortcut metadata of the shortcut
+ * @param formatTitle function to format the title from the shortcut name
+ * @returns embed data
+ */
+const createInaccessibleShortcutEmbed = (
+	{ name, webViewLink }: drive_v3.Schema$File,
+	formatTitle: (name: string) => string,
+): APIEmbed => {
+	if (!(name && webViewLink)) {
+		throw new Error(
+			`Missing required fields: name=${name}, webViewLink=${webViewLink}`,
+		);
+	}
+	return new EmbedBuilder()
+		.setTitle(formatTitle(name))
+		.setURL(webViewLink)
+		.setColor(fileTypes.others.color)
+		.setDescription(
+			"The target of this shortcut is not accessible. It might not be shared with the bot.",
+		)
+		.toJSON();
+};
+
+// title of files restricted by the access policy, not to reveal their names
+const restrictedTitle = "Restricted file";
+
+/**
+ * Create an embed of a file restricted by the access policy, which reveals nothing about it.
+ * @param formatTitle function to format the title
+ * @returns embed data
+ */
+const createRestrictedEmbed = (
+	formatTitle: (name: string) => string,
+): APIEmbed =>
+	new EmbedBuilder()
+		.setTitle(formatTitle(restrictedTitle))
+		.setColor(fileTypes.others.color)
+		.setDescription("This file cannot be shown in this channel.")
+		.toJSON();
+
+/**
+ * Create an embed of a file.
+ * @param file file to create an embed of
+ * @param formatTitle function to format the title from the file name
+ * @param rendering options to render the embed
+ * @param description description of the embed, e.g. contents of a folder
+ * @param thumbnailName name of the attachment of the thumbnail, if any
+ * @returns embed data
+ */
+const createEmbed = async (
+	embedFile: EmbedFile,
+	formatTitle: (name: string) => string,
+	rendering: RenderingOptions,
+	description?: string,
+	thumbnailName?: string,
+): Promise<APIEmbed> => {
+	const { data: file, shortcut, restricted } = embedFile;
+	if (restricted) {
+		return createRestrictedEmbed(formatTitle);
+	}
+	const { name, webViewLink, mimeType, modifiedTime } = file;
+	if (mimeType === shortcutMimeType) {
+		return createInaccessibleShortcutEmbed(file, formatTitle);
+	}
+	// fields must be defined because we specified them in the fields parameter
+	if (!(name && webViewLink && mimeType && modifiedTime)) {
+		throw new Error(
+			`Missing required fields: name=${name}, webViewLink=${webViewLink}, mimeType=${mimeType}, modifiedTime=${modifiedTime}`,
+		);
+	}
+
+	const fileType = getFileType(mimeType, rendering.fileTypes);
+	const embed = new EmbedBuilder()
+		.setTitle(formatTitle(name))
+		.setURL(webViewLink)
+		.setColor(rendering.color ? fileType.color : null)
+		.setTimestamp(rendering.timestamp ? new Date(modifiedTime) : null)
+		.setDescription(description ?? null);
+
+	if (thumbnailName) {
+		const thumbnailUrl = `attachment://${thumbnailName}`;
+		if (rendering.thumbnail === "image") {
+			embed.setImage(thumbnailUrl);
+		} else {
+			embed.setThumbnail(thumbnailUrl);
+		}
+	}
+
+	const fields = createFields(file, rendering);
+	// do not set empty fields, which Discord omits and makes embeds always differ
+	if (fields.length > 0) {
+		embed.setFields(fields);
+	}
+
+	const footer = [
+		...(rendering.type ? [`${fileType.emoji} ${fileType.name}`] : []),
+		...(shortcut ? [`via shortcut "${shortcut.name}"`] : []),
+	];
+	if (footer.length > 0) {
+		embed.setFooter({ text: footer.join(" · ") });
+	}
+
+	return embed.setAuthor(await createAuthor(embedFile, rendering)).toJSON();
+};
+
+// a message can contain up to 5 rows
+// ref: https://discord.com/developers/docs/interactions/message-components#action-rows
+const maxComponentRows = 5;
+
+/**
+ * Merge rows of buttons into rows which can be sent in a message.
+ * @param rows rows of buttons
+ * @returns rows without duplicate custom IDs, limited to the maximum number of rows
+ */
+const mergeComponentRows = (
+	rows: ActionRowBuilder<ButtonBuilder>[],
+): APIActionRowComponent<APIButtonComponent>[] => {
+	// custom IDs must be unique in a message
+	const customIds = new Set<string>();
+	return rows
+		.map((row) => {
+			const { components, ...rest } = row.toJSON();
+			return {
+				...rest,
+				components: components.filter((button) => {
+					if (!("custom_id" in button)) {
+						return true;
+					}
+					if (customIds.has(button.custom_id)) {
+						return false;
 					}
-					throw error;
+					customIds.add(button.custom_id);
+					return true;
 				}),
+			};
+		})
+		.filter(({ components }) => components.length > 0)
+		.slice(0, maxComponentRows);
+};
+
+/**
+ * Create an attachment of the thumbnail of a file.
+ * @param file file to create the attachment of
+ * @param rendering options to render embeds
+ * @returns attachment, or undefined if thumbnails are hidden or not available
+ */
+const createThumbnailAttachment = async (
+	{ id, data, restricted }: EmbedFile,
+	rendering: RenderingOptions,
+): Promise<AttachmentPayload | undefined> => {
+	if (rendering.thumbnail === "none" || !data.hasThumbnail || restricted) {
+		return;
+	}
+	try {
+		const thumbnail = await getThumbnail(id, data);
+		if (!thumbnail) {
+			return;
+		}
+		const extension = thumbnail.contentType.split("/").at(-1) ?? "png";
+		return {
+			attachment: thumbnail.data,
+			// include the version to detect updated thumbnails by their names
+			name: `thumbnail-${id}-${thumbnail.version}.${extension}`,
+		};
+	} catch (error) {
+		// show embeds without thumbnails rather than failing
+		consola.warn(`Failed to download the thumbnail of ${id}.`);
+		console.error(error);
+		return;
+	}
+};
+
+/**
+ * Create embeds of files with components to browse folders.
+ * @param files files to create embeds of, resolved by `resolveShortcut`
+ * @param rendering options to render embeds
+ * @param sourceId ID of the source message to hide in the first embed, if any
+ * @returns embeds, rows of components, and attachments of thumbnails referenced by the embeds
+ */
+export const createFileEmbeds = async (
+	files: EmbedFile[],
+	rendering: RenderingOptions,
+	sourceId?: string,
+): Promise<{
+	embeds: APIEmbed[];
+	components: APIActionRowComponent<APIButtonComponent>[];
+	files: AttachmentPayload[];
+}> => {
+	// list the contents of folders in their embeds
+	const folderPages = await Promise.all(
+		files.map(({ id, data: { mimeType }, restricted }) =>
+			mimeType === folderMimeType && !restricted
+				? createFolderPage(id, 0, rendering.fileTypes)
+				: undefined,
+		),
+	);
+	const thumbnails = await Promise.all(
+		files.map((file) => createThumbnailAttachment(file, rendering)),
+	);
+	const embeds = await Promise.all(
+		files.map((file, i) =>
+			createEmbed(
+				file,
+				// hide source message ID in the title of the first embed
+				(name) =>
+					sourceId && i === 0 ? appendInvisible(name, sourceId) : name,
+				rendering,
+				folderPages[i]?.description,
+				thumbnails[i]?.name,
+			),
+		),
+	);
+	return {
+		embeds,
+		components: mergeComponentRows(
+			folderPages.flatMap((page) => page?.components ?? []),
 		),
-	).then((files) =>
-		files.filter((file): file is drive_v3.Schema$File => file !== undefined),
+		// the same file might be linked multiple times
+		files: [
+			...new Map(
+				thumbnails.flatMap((thumbnail) =>
+					thumbnail ? [[thumbnail.name, thumbnail]] : [],
+				),
+			).values(),
+		],
+	};
+};
+
+/**
+ * Prefixes of custom IDs of the buttons on embeds messages, handled in `controls.ts`.
+ */
+export const controlButtonPrefixes = {
+	refresh: "refresh",
+	display: "display",
+	remove: "remove",
+} as const;
+
+/**
+ * Create a row of buttons to control an embeds message.
+ * @param sourceId ID of the source message
+ * @param display current display of the embeds
+ * @returns row of buttons
+ */
+const createControlRow = (
+	sourceId: string,
+	display: EmbedsDisplay,
+): APIActionRowComponent<APIButtonComponent> =>
+	new ActionRowBuilder<ButtonBuilder>()
+		.setComponents(
+			new ButtonBuilder()
+				.setCustomId(createCustomId(controlButtonPrefixes.refresh, sourceId))
+				.setLabel("Refresh")
+				.setStyle(ButtonStyle.Secondary),
+			display === "collapsed"
+				? new ButtonBuilder()
+						.setCustomId(
+							createCustomId(
+								controlButtonPrefixes.display,
+								sourceId,
+								"expanded",
+							),
+						)
+						.setLabel("Show")
+						.setStyle(ButtonStyle.Secondary)
+				: new ButtonBuilder()
+						.setCustomId(
+							createCustomId(
+								controlButtonPrefixes.display,
+								sourceId,
+								"collapsed",
+							),
+						)
+						.setLabel("Hide")
+						.setStyle(ButtonStyle.Secondary),
+			new ButtonBuilder()
+				.setCustomId(createCustomId(controlButtonPrefixes.remove, sourceId))
+				.setLabel("Remove")
+				.setStyle(ButtonStyle.Danger),
+		)
+		.toJSON();
+
+/**
+ * Create the content of a collapsed embeds message, which lists links in a single line.
+ * @param files files to list
+ * @param sourceId ID of the source message to hide in the content
+ * @returns content of the message
+ */
+const createCollapsedContent = (files: EmbedFile[], sourceId: string): string =>
+	appendInvisible(
+		files
+			.map(({ id, data: { name, webViewLink }, restricted }) => {
+				if (restricted) {
+					return restrictedTitle;
+				}
+				return webViewLink
+					? hyperlink(escapeLinkText(name ?? id), hideLinkEmbed(webViewLink))
+					: escapeMarkdown(name ?? id);
+			})
+			.join(" · "),
+		sourceId,
+	);
+
+/**
+ * Resolve files linked in a source message, and apply the access policy of its channel.
+ * @param links links of files
+ * @param channel channel of the source message
+ * @returns files to create embeds of, and files restricted by the access policy
+ */
+const resolveLinkedFiles = async (
+	links: DriveLink[],
+	channel: GuildTextBasedChannel,
+): Promise<{ files: EmbedFile[]; restrictedFiles: EmbedFile[] }> => {
+	const files = await Promise.all(
+		links.map(async ({ fileId, resourceKey }) => {
+			const data = await getFile(fileId, resourceKey);
+			// ignore inaccessible files because the file might no be shared with the bot
+			return data ? await resolveShortcut({ id: fileId, data }) : undefined;
+		}),
 	);
+	return await applyAccessPolicy(
+		channel,
+		files.filter((file): file is EmbedFile => file !== undefined),
+		"embeds",
+	);
+};
+
+/**
+ * Create an embeds message from a source message.
+ * @param files files to create embeds of, resolved by `resolveLinkedFiles`
+ * @param sourceId ID of the source message
+ * @param rendering options to render embeds
+ * @param display how to display the embeds
+ * @returns embeds message, or undefined if no embeds are created
+ */
+const createEmbedsMessage = async (
+	files: EmbedFile[],
+	sourceId: string,
+	rendering: RenderingOptions,
+	display: EmbedsDisplay,
+): Promise<
+	| {
+			options: MessageCreateOptions & MessageEditOptions;
+			/**
+			 * IDs of files in the embeds, excluding inaccessible ones.
+			 * Targets are included instead of shortcuts if accessible.
+			 */
+			fileIds: string[];
+	  }
+	| undefined
+> => {
 	if (files.length === 0) {
 		return;
 	}
+	const fileIds = files.map(({ id }) => id);
+	const flags = MessageFlagsBitField.resolve(
+		MessageFlags.SuppressNotifications,
+	);
 
-	return {
-		embeds: files.map(({ name, webViewLink, mimeType, modifiedTime }, i) => {
-			// fields must be defined because we specified them in the fields parameter
-			if (!(name && webViewLink && mimeType && modifiedTime)) {
-				throw new Error(
-					`Missing required fields: name=${name}, webViewLink=${webViewLink}, mimeType=${mimeType}, modifiedTime=${modifiedTime}`,
-				);
-			}
+	if (display === "collapsed") {
+		return {
+			options: {
+				content: createCollapsedContent(files, sourceId),
+				embeds: [],
+				components: [createControlRow(sourceId, display)],
+				files: [],
+				attachments: [],
+				flags,
+			},
+			fileIds,
+		};
+	}
 
-			// hide source message ID in the title of the first embed
-			const title = i > 0 ? name : appendInvisible(name, sourceId);
-			return new EmbedBuilder()
-				.setTitle(title)
-				.setURL(webViewLink)
-				.setColor(
-					(
-						Object.values(fileTypes).find(({ mime }) => mime === mimeType) ??
-						fileTypes.others
-					).color,
-				)
-				.setTimestamp(new Date(modifiedTime))
-				.toJSON();
-		}),
-		flags: MessageFlagsBitField.resolve(MessageFlags.SuppressNotifications),
+	const {
+		embeds,
+		components,
+		files: attachments,
+	} = await createFileEmbeds(files, rendering, sourceId);
+
+	return {
+		options: {
+			// clear the content in case the message was collapsed
+			content: "",
+			embeds,
+			components: [
+				// keep a room for the control row
+				...components.slice(0, maxComponentRows - 1),
+				createControlRow(sourceId, display),
+			],
+			files: attachments,
+			flags,
+		},
+		fileIds,
 	};
 };
 
@@ -183,37 +707,263 @@ const suppressEmbeds = async (message: Message, fileUrls: string[]) => {
 };
 
 /**
- * Update the embeds message of a source message.
+ * Check if the components of an old embeds message differ from new ones.
+ * @param oldEmbedsMessage old embeds message
+ * @param newOptions options of the new embeds message
+ * @returns true if the components need to be edited
+ */
+const isComponentsChanged = (
+	oldEmbedsMessage: Message,
+	newOptions: MessageEditOptions,
+): boolean => {
+	const newComponents = (newOptions.components ?? []).map((row) =>
+		isJSONEncodable(row) ? row.toJSON() : row,
+	);
+	return (
+		oldEmbedsMessage.components.length !== newComponents.length ||
+		oldEmbedsMessage.components.some(
+			// old components include some extra properties like `id`
+			(oldRow, i) => !deepMatch(newComponents[i], oldRow.toJSON()),
+		)
+	);
+};
+
+/**
+ * Get the name of an attachment referenced by an image in an embed.
+ * @param url URL of the image, `attachment://<name>` in new embeds or a CDN URL in sent embeds
+ * @returns name of the attachment, or undefined if no image
+ */
+const getAttachmentName = (url: string | undefined): string | undefined => {
+	if (!url) {
+		return;
+	}
+	if (url.startsWith("attachment://")) {
+		return url.slice("attachment://".length);
+	}
+	// sent attachments are served with signed query parameters
+	return new URL(url).pathname.split("/").at(-1);
+};
+
+/**
+ * Check if the embeds of an old embeds message differ from new ones.
+ * @param oldEmbedsMessage old embeds message
+ * @param newOptions options of the new embeds message
+ * @returns true if the old embeds message needs to be edited
+ */
+const isEmbedsChanged = (
+	oldEmbedsMessage: Message,
+	newOptions: MessageEditOptions,
+): boolean =>
+	oldEmbedsMessage.content !== (newOptions.content ?? "") ||
+	isComponentsChanged(oldEmbedsMessage, newOptions) ||
+	oldEmbedsMessage.embeds.length !== newOptions.embeds?.length ||
+	oldEmbedsMessage.embeds.some(({ data: oldEmbedData }, i) => {
+		const newEmbed = newOptions.embeds?.[i];
+		if (!newEmbed) {
+			return true;
+		}
+		const newEmbedData = isJSONEncodable(newEmbed)
+			? newEmbed.toJSON()
+			: newEmbed;
+
+		// do not use Embed#equals because it compares timestamps just as strings
+		return (
+			new Date(oldEmbedData.timestamp ?? 0).getTime() !==
+				new Date(newEmbedData.timestamp ?? 0).getTime() ||
+			getAttachmentName(oldEmbedData.image?.url) !==
+				getAttachmentName(newEmbedData.image?.url) ||
+			getAttachmentName(oldEmbedData.thumbnail?.url) !==
+				getAttachmentName(newEmbedData.thumbnail?.url) ||
+			// oldEmbedData includes some extra properties like `type` or `content_scan_version`
+			!deepMatch(
+				Object.fromEntries(
+					Object.entries(newEmbedData).filter(
+						([key]) => !["timestamp", "image", "thumbnail"].includes(key),
+					),
+				),
+				oldEmbedData,
+			)
+		);
+	});
+
+type UpdateEmbedsOptions =
+	| { [k: string]: never }
+	| {
+			isNewlyCreated: boolean;
+	  }
+	| {
+			isEmbedsSuppressed: boolean;
+	  };
+
+/**
+ * Queue of tasks to update or delete embeds messages, keyed by source message IDs.
+ * Serializes tasks of the same source message to avoid sending duplicate embeds messages.
+ * Only superseded updates are skipped, so deletions and removals are never lost.
+ */
+const embedsQueue = createKeyedQueue();
+
+/**
+ * Send an embeds message for a source message.
+ * @param sourceMessage source message in a sendable channel
+ * @param options options of the embeds message
+ * @param reply whether to reply to the source message
+ * @returns sent embeds message
+ */
+const sendEmbedsMessage = async (
+	sourceMessage: Message,
+	options: MessageCreateOptions,
+	reply: boolean,
+): Promise<Message> => {
+	if (reply) {
+		return await sourceMessage.reply({
+			...options,
+			// do not mention the author since notifications are suppressed
+			allowedMentions: { repliedUser: false },
+		});
+	}
+	if (!sourceMessage.channel.isSendable()) {
+		throw new Error(`Channel ${sourceMessage.channelId} is not sendable.`);
+	}
+	return await sourceMessage.channel.send(options);
+};
+
+/**
+ * Message to record audit events of, which might have been deleted.
+ * `author` is who posted the links, or null if unknown or the bot posted them by itself.
+ */
+export type AuditedMessage = Pick<
+	Message,
+	"id" | "guildId" | "channelId" | "client"
+> & {
+	author: { id: string } | null;
+};
+
+/**
+ * Record audit events of files in the embeds of a message.
+ * @param sourceMessage message which links the files, or the message of the bot which shows them
+ * @param action what the bot did with the embeds
+ * @param files files in the embeds
+ */
+export const auditEmbeds = async (
+	sourceMessage: AuditedMessage,
+	action: AuditAction,
+	files: Pick<EmbedFile, "id" | "data">[],
+) => {
+	const { guildId } = sourceMessage;
+	if (!guildId) {
+		return;
+	}
+	const eventTime = new Date().toISOString();
+	await recordAuditEvents(
+		sourceMessage.client,
+		files.map(({ id, data }) => ({
+			time: eventTime,
+			action,
+			fileId: id,
+			title: data.name ?? null,
+			userId: sourceMessage.author?.id ?? null,
+			guildId,
+			channelId: sourceMessage.channelId,
+			messageId: sourceMessage.id,
+		})),
+	);
+};
+
+/**
+ * Record audit events of files in the embeds of a source message before its mapping is deleted.
+ * @param sourceMessage source message whose embeds are deleted
+ */
+export const auditDeletedEmbeds = async (sourceMessage: AuditedMessage) => {
+	// names are unknown without requests to Google Drive
+	const fileIds = findEmbedsMapping(sourceMessage.id)?.fileIds ?? [];
+	await auditEmbeds(
+		sourceMessage,
+		"deleted",
+		fileIds.map((id) => ({ id, data: {} })),
+	);
+};
+
+/**
+ * Record audit events of files refused by the access policy, unless they are already refused for the source message.
+ * Updates of the source message refuse the same files again, which are not worth recording every time.
+ * @param sourceMessage source message which links the files
+ * @param restrictedFiles files restricted by the access policy
+ */
+const auditRefusedFiles = async (
+	sourceMessage: Message,
+	restrictedFiles: EmbedFile[],
+) => {
+	if (restrictedFiles.length === 0) {
+		return;
+	}
+	const latestActions = findLatestAuditActions(sourceMessage.id);
+	await auditEmbeds(
+		sourceMessage,
+		"refused",
+		restrictedFiles.filter(({ id }) => latestActions.get(id) !== "refused"),
+	);
+};
+
+/**
+ * Resolve the channel of a source message with its settings.
  * @param sourceMessage source message
- * @param newlyCreated whether the source message is newly created
+ * @returns channel and its settings, or undefined if the bot does not act in the channel
  */
-export const updateEmbedsMessage = async (
+const resolveChannelContext = (
+	sourceMessage: Message,
+):
+	| {
+			channel: GuildTextBasedChannel;
+			rendering: RenderingOptions;
+			config: ChannelConfig;
+	  }
+	| undefined => {
+	if (!(sourceMessage.inGuild() && sourceMessage.channel.isSendable())) {
+		return;
+	}
+	const { channel } = sourceMessage;
+	const rendering = getRenderingOptions(channel);
+	const config = getChannelConfig(channel);
+	return rendering && config ? { channel, rendering, config } : undefined;
+};
+
+/**
+ * Apply the latest content of a source message to its embeds message.
+ * @param sourceMessage source message
+ * @param options options of the update
+ * @param display how to display the embeds
+ */
+const applyEmbedsUpdate = async (
 	sourceMessage: Message,
-	options:
-		| { [k: string]: never }
-		| {
-				isNewlyCreated: boolean;
-		  }
-		| {
-				isEmbedsSuppressed: boolean;
-		  } = {},
+	options: UpdateEmbedsOptions,
+	display: Exclude<EmbedsDisplay, "removed">,
 ) => {
 	const isNewlyCreated = "isNewlyCreated" in options && options.isNewlyCreated;
 	const isEmbedsSuppressed =
 		"isEmbedsSuppressed" in options && options.isEmbedsSuppressed;
 
-	const fileIds = extractFileIds(sourceMessage.content);
-	const [oldEmbedsMessage, newEmbedsMessage] = await Promise.all([
+	const context = resolveChannelContext(sourceMessage);
+	// ignore messages from unauthorized guilds or DMs
+	if (!context) {
+		return;
+	}
+	const { channel, rendering, config } = context;
+
+	const links = extractDriveLinks(sourceMessage.content);
+	const [oldEmbedsMessage, { files, restrictedFiles }] = await Promise.all([
 		// skip retrieving old embeds message if the source message is newly created
-		isNewlyCreated
-			? undefined
-			: // retry twice because the old embeds might not be sent yet when the source is updated in quick succession
-				retrieveOldEmbedsMessage(sourceMessage, 2),
-		createEmbedsMessage(
-			fileIds.map(({ fileId }) => fileId),
-			sourceMessage.id,
-		),
+		isNewlyCreated ? undefined : retrieveOldEmbedsMessage(sourceMessage),
+		resolveLinkedFiles(links, channel),
 	]);
+	const newEmbedsMessage = await createEmbedsMessage(
+		files,
+		sourceMessage.id,
+		rendering,
+		display,
+	);
+	await auditRefusedFiles(sourceMessage, restrictedFiles);
+	// neutral cards of restricted files reveal nothing
+	const shownFiles = files.filter(({ restricted }) => !restricted);
 
 	if (!oldEmbedsMessage) {
 		if (!newEmbedsMessage) {
@@ -221,47 +971,71 @@ export const updateEmbedsMessage = async (
 			return;
 		}
 
-		await sourceMessage.channel.send(newEmbedsMessage);
-	} else if (!newEmbedsMessage) {
-		await oldEmbedsMessage.delete();
-	} else if (
+		const embedsMessage = await sendEmbedsMessage(
+			sourceMessage,
+			newEmbedsMessage.options,
+			config.reply,
+		);
+		embedsMessagesCounter.inc({ action: "created" });
+		await auditEmbeds(sourceMessage, "created", shownFiles);
+		saveEmbedsMapping({
+			sourceId: sourceMessage.id,
+			channelId: sourceMessage.channelId,
+			embedsMessageId: embedsMessage.id,
+			fileIds: newEmbedsMessage.fileIds,
+		});
+	} else if (newEmbedsMessage) {
 		// do not edit if the embeds are the same to avoid `(edited)` in the message
-		oldEmbedsMessage.embeds?.length !== newEmbedsMessage.embeds?.length ||
-		oldEmbedsMessage.embeds?.some(({ data: oldEmbedData }, i) => {
-			const newEmbed = newEmbedsMessage.embeds?.[i];
-			if (!newEmbed) {
-				return true;
-			}
-			const newEmbedData = isJSONEncodable(newEmbed)
-				? newEmbed.toJSON()
-				: newEmbed;
-
-			// do not use Embed#equals because it compares timestamps just as strings
-			return (
-				new Date(oldEmbedData.timestamp ?? 0).getTime() !==
-					new Date(newEmbedData.timestamp ?? 0).getTime() ||
-				// oldEmbedData includes some extra properties like `type` or `content_scan_version`
-				!deepMatch(
-					Object.fromEntries(
-						Object.entries(newEmbedData).filter(([key]) => key !== "timestamp"),
-					),
-					oldEmbedData,
-				)
-			);
-		})
-	) {
-		await oldEmbedsMessage.edit(newEmbedsMessage);
+		if (isEmbedsChanged(oldEmbedsMessage, newEmbedsMessage.options)) {
+			await oldEmbedsMessage.edit(newEmbedsMessage.options);
+			embedsMessagesCounter.inc({ action: "edited" });
+			await auditEmbeds(sourceMessage, "edited", shownFiles);
+		}
+		// record the mapping also for old embeds messages found by scanning the history
+		saveEmbedsMapping({
+			sourceId: sourceMessage.id,
+			channelId: sourceMessage.channelId,
+			embedsMessageId: oldEmbedsMessage.id,
+			fileIds: newEmbedsMessage.fileIds,
+		});
+	} else {
+		await oldEmbedsMessage.delete();
+		embedsMessagesCounter.inc({ action: "deleted" });
+		await auditDeletedEmbeds(sourceMessage);
+		deleteEmbedsMapping(sourceMessage.id);
 	}
 
 	// skip when embeds are suppressed in the source message to avoid infinite recursion
-	if (!isEmbedsSuppressed) {
+	if (config.suppress && !isEmbedsSuppressed) {
 		await suppressEmbeds(
 			sourceMessage,
-			fileIds.map(({ url }) => url),
+			links.map(({ url }) => url),
 		);
 	}
 };
 
+/**
+ * Update the embeds message of a source message.
+ * Updates of the same source message are applied in order, and superseded ones are skipped.
+ * @param sourceMessage source message
+ * @param options options of the update
+ * @param options.isNewlyCreated whether the source message is newly created
+ * @param options.isEmbedsSuppressed whether the embeds of the source message have just been suppressed
+ */
+export const updateEmbedsMessage = async (
+	sourceMessage: Message,
+	options: UpdateEmbedsOptions = {},
+) => {
+	await embedsQueue(sourceMessage.id, "update", async () => {
+		const display = getEmbedsDisplay(sourceMessage.id);
+		// do not create embeds again once removed by the buttons, nor suppress default embeds
+		if (display === "removed") {
+			return;
+		}
+		await applyEmbedsUpdate(sourceMessage, options, display);
+	});
+};
+
 /**
  * Delete the embeds message of a source message.
  * @param sourceMessage source message
@@ -269,6 +1043,36 @@ export const updateEmbedsMessage = async (
 export const deleteEmbedsMessage = async (
 	sourceMessage: Message | PartialMessage,
 ) => {
-	const oldEmbedsMessage = await retrieveOldEmbedsMessage(sourceMessage);
-	await oldEmbedsMessage?.delete();
+	await embedsQueue(sourceMessage.id, "delete", async () => {
+		const oldEmbedsMessage = await retrieveOldEmbedsMessage(sourceMessage);
+		if (oldEmbedsMessage) {
+			await oldEmbedsMessage.delete();
+			embedsMessagesCounter.inc({ action: "deleted" });
+			await auditDeletedEmbeds(sourceMessage);
+		}
+		deleteEmbedsMapping(sourceMessage.id);
+		deleteEmbedsDisplay(sourceMessage.id);
+	});
+};
+
+/**
+ * Remove the embeds message of a source message, and restore the default embeds of the source message.
+ * Embeds are not created again for the source message even if it is edited.
+ * @param sourceMessage source message
+ */
+export const removeEmbedsMessage = async (sourceMessage: Message) => {
+	await embedsQueue(sourceMessage.id, "remove", async () => {
+		// record first to ignore the update event caused by restoring the default embeds
+		saveEmbedsDisplay(sourceMessage.id, "removed");
+		const oldEmbedsMessage = await retrieveOldEmbedsMessage(sourceMessage);
+		if (oldEmbedsMessage) {
+			await oldEmbedsMessage.delete();
+			embedsMessagesCounter.inc({ action: "deleted" });
+			await auditDeletedEmbeds(sourceMessage);
+		}
+		deleteEmbedsMapping(sourceMessage.id);
+		if (sourceMessage.flags.has(MessageFlags.SuppressEmbeds)) {
+			await sourceMessage.suppressEmbeds(false);
+		}
+	});
 };
@@ -1,25 +1,130 @@
+// environment variables are read and validated by config.ts
+// they override the values in the config file, see `ConfigFile` for details
 declare module "bun" {
 	interface Env {
+		/**
+		 * Path to the config file.
+		 * Defaults to `gdrive4d.config.ts` or `gdrive4d.config.json`.
+		 */
+		readonly CONFIG_PATH?: string;
+
 		/**
 		 * Token of the Discord bot.
 		 */
-		readonly DISCORD_BOT_TOKEN: string;
+		readonly DISCORD_BOT_TOKEN?: string;
+
+		/**
+		 * Comma-separated IDs of the Discord guilds where the bot is used.
+		 */
+		readonly DISCORD_GUILD_IDS?: string;
+
+		/**
+		 * ID of the Discord guild where the bot is used, read if `DISCORD_GUILD_IDS` is not set.
+		 * @deprecated Use `DISCORD_GUILD_IDS` instead.
+		 */
+		readonly DISCORD_GUILD_ID?: string;
+
+		/**
+		 * Path to the JSON file of per-guild settings.
+		 * Defaults to `guilds.json`.
+		 */
+		readonly GUILD_SETTINGS_PATH?: string;
+
+		/**
+		 * Path to the SQLite database file to persist the state of the bot.
+		 * Defaults to `gdrive4d.sqlite`.
+		 */
+		readonly DATABASE_PATH?: string;
+
+		/**
+		 * Interval to poll changes in Google Drive to refresh embeds, in seconds.
+		 * Defaults to 60. Set to 0 to disable.
+		 */
+		readonly DRIVE_WATCH_INTERVAL_SECONDS?: string;
+
+		/**
+		 * Maximum age of messages whose embeds are refreshed on changes, in days.
+		 * Defaults to 30.
+		 */
+		readonly DRIVE_WATCH_MAX_AGE_DAYS?: string;
+
+		/**
+		 * Time to live of cached metadata of Google Drive files, in seconds.
+		 * Defaults to 300.
+		 */
+		readonly DRIVE_CACHE_TTL_SECONDS?: string;
+
+		/**
+		 * Whether to persist cached metadata of Google Drive files in the database, `true` or `false`.
+		 * Defaults to `false`.
+		 */
+		readonly DRIVE_CACHE_PERSIST?: string;
 
 		/**
-		 * ID of the Discord guild where the bot is used.
+		 * Port of the HTTP server for health checks and metrics.
+		 * The server is disabled if not set.
 		 */
-		readonly DISCORD_GUILD_ID: string;
+		readonly HTTP_PORT?: string;
+
+		/**
+		 * ID of the channel to post audit events to.
+		 * Audit events are not posted if not set.
+		 */
+		readonly AUDIT_CHANNEL_ID?: string;
+
+		/**
+		 * Path to the JSONL file to append audit events to.
+		 * The file is not written if not set.
+		 */
+		readonly AUDIT_LOG_PATH?: string;
+
+		/**
+		 * How the bot authenticates to Google Drive, `service_account`, `delegation`, or `oauth`.
+		 * Defaults to `service_account`.
+		 */
+		readonly GOOGLE_AUTH_MODE?: string;
+
+		/**
+		 * Path to the JSON key file of the Google Cloud service account.
+		 */
+		readonly GOOGLE_SERVICE_ACCOUNT_KEY_FILE?: string;
 
 		/**
 		 * Email of the Google Cloud service account.
 		 * (`client_email` in the JSON file)
 		 */
-		readonly GOOGLE_SERVICE_ACCOUNT_EMAIL: string;
+		readonly GOOGLE_SERVICE_ACCOUNT_EMAIL?: string;
 
 		/**
 		 * Private key of the Google Cloud service account.
 		 * (`private_key` in the JSON file)
 		 */
-		readonly GOOGLE_SERVICE_ACCOUNT_KEY: string;
+		readonly GOOGLE_SERVICE_ACCOUNT_KEY?: string;
+
+		/**
+		 * Email of the Workspace user impersonated by the service account in the `delegation` mode.
+		 */
+		readonly GOOGLE_DELEGATION_SUBJECT?: string;
+
+		/**
+		 * Client ID of the OAuth client in the `oauth` mode.
+		 */
+		readonly GOOGLE_OAUTH_CLIENT_ID?: string;
+
+		/**
+		 * Client secret of the OAuth client in the `oauth` mode.
+		 */
+		readonly GOOGLE_OAUTH_CLIENT_SECRET?: string;
+
+		/**
+		 * Refresh token of the user who authorized the bot in the `oauth` mode.
+		 */
+		readonly GOOGLE_OAUTH_REFRESH_TOKEN?: string;
+
+		/**
+		 * Whether the bot may read the contents of files, which is required to show thumbnails, `true` or `false`.
+		 * Defaults to `false`.
+		 */
+		readonly GOOGLE_CONTENT_ACCESS?: string;
 	}
 }
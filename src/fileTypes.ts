@@ -0,0 +1,274 @@
+/**
+ * Type of files rendered in embeds.
+ */
+export type FileType = {
+	/**
+	 * MIME types of the type, exactly or by family, e.g. `application/pdf` or `image/*`.
+	 */
+	mimeTypes: string[];
+	/**
+	 * Short label of the type, e.g. in lists of folder contents.
+	 */
+	label: string;
+	/**
+	 * Name of the type shown in the footers of embeds.
+	 */
+	name: string;
+	color: `#${string}`;
+	emoji: string;
+};
+
+/**
+ * Appearance of a file type which can be overridden by guild settings.
+ */
+export type FileTypeOverride = Partial<Omit<FileType, "mimeTypes">>;
+
+export type FileTypeId =
+	| "folder"
+	| "docs"
+	| "sheets"
+	| "slides"
+	| "forms"
+	| "drawings"
+	| "sites"
+	| "jamboard"
+	| "maps"
+	| "scripts"
+	| "pdf"
+	| "word"
+	| "excel"
+	| "powerpoint"
+	| "archive"
+	| "image"
+	| "video"
+	| "audio"
+	| "text"
+	| "others";
+
+/**
+ * Catalog of file types and their brand colors.
+ * Types are matched in order, and exact MIME types take precedence over families.
+ */
+// ref: https://developers.google.com/drive/api/guides/mime-types
+export const fileTypes: Record<FileTypeId, FileType> = {
+	folder: {
+		mimeTypes: ["application/vnd.google-apps.folder"],
+		label: "folder",
+		name: "Folder",
+		color: "#5f6368",
+		emoji: "📁",
+	},
+	docs: {
+		mimeTypes: ["application/vnd.google-apps.document"],
+		label: "docs",
+		name: "Google Docs",
+		color: "#4285f4",
+		emoji: "📝",
+	},
+	sheets: {
+		mimeTypes: ["application/vnd.google-apps.spreadsheet"],
+		label: "sheets",
+		name: "Google Sheets",
+		color: "#0f9d58",
+		emoji: "📊",
+	},
+	slides: {
+		mimeTypes: ["application/vnd.google-apps.presentation"],
+		label: "slides",
+		name: "Google Slides",
+		color: "#f4b400",
+		emoji: "📽️",
+	},
+	forms: {
+		mimeTypes: ["application/vnd.google-apps.form"],
+		label: "forms",
+		name: "Google Forms",
+		color: "#7627bb",
+		emoji: "📋",
+	},
+	drawings: {
+		mimeTypes: ["application/vnd.google-apps.drawing"],
+		label: "drawings",
+		name: "Google Drawings",
+		color: "#db4437",
+		emoji: "🎨",
+	},
+	sites: {
+		mimeTypes: ["application/vnd.google-apps.site"],
+		label: "sites",
+		name: "Google Sites",
+		color: "#3f51b5",
+		emoji: "🌐",
+	},
+	jamboard: {
+		mimeTypes: ["application/vnd.google-apps.jam"],
+		label: "jamboard",
+		name: "Jamboard",
+		color: "#f37c20",
+		emoji: "🖍️",
+	},
+	maps: {
+		mimeTypes: ["application/vnd.google-apps.map"],
+		label: "maps",
+		name: "Google My Maps",
+		color: "#34a853",
+		emoji: "🗺️",
+	},
+	scripts: {
+		mimeTypes: ["application/vnd.google-apps.script"],
+		label: "scripts",
+		name: "Google Apps Script",
+		color: "#4285f4",
+		emoji: "📜",
+	},
+	pdf: {
+		mimeTypes: ["application/pdf"],
+		label: "pdf",
+		name: "PDF",
+		color: "#ea4335",
+		emoji: "📕",
+	},
+	word: {
+		mimeTypes: [
+			"application/msword",
+			"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		],
+		label: "word",
+		name: "Microsoft Word",
+		color: "#2b579a",
+		emoji: "📘",
+	},
+	excel: {
+		mimeTypes: [
+			"application/vnd.ms-excel",
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+		],
+		label: "excel",
+		name: "Microsoft Excel",
+		color: "#217346",
+		emoji: "📗",
+	},
+	powerpoint: {
+		mimeTypes: [
+			"application/vnd.ms-powerpoint",
+			"application/vnd.openxmlformats-officedocument.presentationml.presentation",
+		],
+		label: "powerpoint",
+		name: "Microsoft PowerPoint",
+		color: "#d24726",
+		emoji: "📙",
+	},
+	archive: {
+		mimeTypes: [
+			"application/zip",
+			"application/x-zip-compressed",
+			"application/x-7z-compressed",
+			"application/vnd.rar",
+			"application/x-rar-compressed",
+			"application/x-tar",
+			"application/gzip",
+		],
+		label: "archive",
+		name: "Archive",
+		color: "#757575",
+		emoji: "🗜️",
+	},
+	image: {
+		mimeTypes: ["image/*"],
+		label: "image",
+		name: "Image",
+		color: "#d93025",
+		emoji: "🖼️",
+	},
+	video: {
+		mimeTypes: ["video/*"],
+		label: "video",
+		name: "Video",
+		color: "#d93025",
+		emoji: "🎬",
+	},
+	audio: {
+		mimeTypes: ["audio/*"],
+		label: "audio",
+		name: "Audio",
+		color: "#e37400",
+		emoji: "🎵",
+	},
+	text: {
+		mimeTypes: ["text/*"],
+		label: "text",
+		name: "Text",
+		color: "#9aa0a6",
+		emoji: "📄",
+	},
+	others: {
+		mimeTypes: [],
+		label: "file",
+		name: "File",
+		color: "#e3e5e8",
+		emoji: "📄",
+	},
+};
+
+/**
+ * Check if a MIME type matches a pattern.
+ * @param mimeType MIME type to check
+ * @param pattern exact MIME type, or family of MIME types ending with `/*`
+ * @param exact whether to match only exact MIME types
+ * @returns true if matched
+ */
+const matchMimeType = (
+	mimeType: string,
+	pattern: string,
+	exact: boolean,
+): boolean => {
+	if (pattern.endsWith("/*")) {
+		return !exact && mimeType.startsWith(pattern.slice(0, -1));
+	}
+	return exact && mimeType === pattern;
+};
+
+/**
+ * File types selectable in options of commands, excluding the fallback type.
+ */
+export const selectableFileTypes = Object.entries(fileTypes).filter(
+	([id]) => id !== "others",
+) as [FileTypeId, FileType][];
+
+/**
+ * Find the ID of the type of a file.
+ * @param mimeType MIME type of the file
+ * @returns ID of the file type, or `others` if not matched
+ */
+export const findFileTypeId = (
+	mimeType: string | null | undefined,
+): FileTypeId => {
+	if (!mimeType) {
+		return "others";
+	}
+	const entries = Object.entries(fileTypes) as [FileTypeId, FileType][];
+	// match exact MIME types first, e.g. `image/svg+xml` before `image/*`
+	for (const exact of [true, false]) {
+		const entry = entries.find(([, { mimeTypes }]) =>
+			mimeTypes.some((pattern) => matchMimeType(mimeType, pattern, exact)),
+		);
+		if (entry) {
+			return entry[0];
+		}
+	}
+	return "others";
+};
+
+/**
+ * Get the type of a file, with its appearance overridden.
+ * @param mimeType MIME type of the file
+ * @param overrides appearances overridden per file type, e.g. by guild settings
+ * @returns file type
+ */
+export const getFileType = (
+	mimeType: string | null | undefined,
+	overrides: Partial<Record<FileTypeId, FileTypeOverride>> = {},
+): FileType => {
+	const id = findFileTypeId(mimeType);
+	return { ...fileTypes[id], ...overrides[id] };
+};
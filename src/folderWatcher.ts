@@ -0,0 +1,350 @@
+import type { drive_v3 } from "@googleapis/drive";
+import { sleep } from "bun";
+import { consola } from "consola";
+import {
+	type Client,
+	DiscordAPIError,
+	type GuildTextBasedChannel,
+	type MessageCreateOptions,
+	RESTJSONErrorCodes,
+	hideLinkEmbed,
+	hyperlink,
+} from "discord.js";
+import { applyAccessPolicy } from "./access";
+import { config } from "./config";
+import {
+	type EmbedFile,
+	auditEmbeds,
+	createFileEmbeds,
+	resolveShortcut,
+} from "./embeds";
+import { findFileTypeId } from "./fileTypes";
+import {
+	type FolderWatch,
+	deleteFolderWatch,
+	findFolderWatches,
+	saveFolderWatchCursor,
+} from "./folderWatches";
+import { fileFields, folderMimeType, listFilesInFolders } from "./gdrive";
+import {
+	type RenderingOptions,
+	getRenderingOptions,
+	isEnabledChannel,
+} from "./guilds";
+import { escapeLinkText } from "./util/markdown";
+
+/**
+ * Interval to poll watched folders, in milliseconds.
+ * Polling is disabled if 0.
+ */
+const pollInterval = config.watch.intervalSeconds * 1000;
+
+// list at most this number of subfolders to bound requests for deep folders
+const maxWatchedFolders = 100;
+// list at most this number of changed files per poll
+const maxListedFiles = 100;
+// notify at most this number of files per poll, not to flood the channel
+const maxNotifiedFiles = 30;
+// a message can contain up to 10 embeds
+const maxEmbedsPerMessage = 10;
+
+// files being edited are modified continuously, so do not notify the same file again within this period
+const notificationCooldown = 60 * 60 * 1000;
+const maxNotificationRecords = 10_000;
+
+// keyed by `${channelId}:${fileId}`, and the values are times when the cooldowns expire
+const notificationRecords = new Map<string, number>();
+
+/**
+ * Check if a file has been notified to a channel recently.
+ * @param channelId ID of the channel
+ * @param fileId ID of the file
+ * @returns true if the file is in the cooldown
+ */
+const isRecentlyNotified = (channelId: string, fileId: string): boolean =>
+	(notificationRecords.get(`${channelId}:${fileId}`) ?? 0) > Date.now();
+
+/**
+ * Record that a file is notified to a channel, to start its cooldown.
+ * @param channelId ID of the channel
+ * @param fileId ID of the file
+ */
+const recordNotification = (channelId: string, fileId: string) => {
+	const key = `${channelId}:${fileId}`;
+	if (notificationRecords.size >= maxNotificationRecords) {
+		// Map iterates in insertion order, so the first key is the oldest
+		const [oldestKey] = notificationRecords.keys();
+		notificationRecords.delete(oldestKey ?? "");
+	}
+	// delete first to move the key to the end
+	notificationRecords.delete(key);
+	notificationRecords.set(key, Date.now() + notificationCooldown);
+};
+
+/**
+ * List the watched folder and its subfolders if enabled.
+ * @param watch watch of the folder
+ * @returns IDs of the folders, from shallower to deeper ones, and resource keys of the folders keyed by their IDs
+ */
+const listWatchedFolders = async ({
+	folderId,
+	resourceKey,
+	subfolders,
+}: FolderWatch): Promise<{
+	folderIds: string[];
+	resourceKeys: Record<string, string>;
+}> => {
+	const folderIds = [folderId];
+	// folders shared by links can be listed only with their resource keys
+	const resourceKeys: Record<string, string> = resourceKey
+		? { [folderId]: resourceKey }
+		: {};
+	if (!subfolders) {
+		return { folderIds, resourceKeys };
+	}
+	// breadth-first to keep shallower folders if there are too many
+	let level = [folderId];
+	while (level.length > 0 && folderIds.length < maxWatchedFolders) {
+		const children = await listFilesInFolders(
+			level,
+			{ mimeType: folderMimeType },
+			"name,resourceKey",
+			maxWatchedFolders - folderIds.length,
+			resourceKeys,
+		);
+		level = [];
+		for (const child of children) {
+			if (!child.id || folderIds.includes(child.id)) {
+				continue;
+			}
+			level.push(child.id);
+			if (child.resourceKey) {
+				resourceKeys[child.id] = child.resourceKey;
+			}
+		}
+		folderIds.push(...level);
+	}
+	return { folderIds, resourceKeys };
+};
+
+/**
+ * Check if a changed file matches the filters of a watch.
+ * @param watch watch of the folder
+ * @param file changed file
+ * @returns true if the file matches
+ */
+const matchesWatch = (
+	{ events, fileType, cursor }: FolderWatch,
+	{ mimeType, createdTime }: drive_v3.Schema$File,
+): boolean =>
+	(!fileType || findFileTypeId(mimeType) === fileType) &&
+	// times are compared as strings since both are in the same format of RFC 3339
+	(events === "modified" || (!!createdTime && createdTime > cursor));
+
+/**
+ * Create messages to notify changed files.
+ * @param watch watch of the folder
+ * @param files changed files, sorted by last modified time in descending order
+ * @param channel channel to post the messages to, to apply its access policy
+ * @param rendering options to render embeds
+ * @returns options of messages, each of which contains up to 10 embeds, files revealed by them, and IDs of all files listed in them
+ */
+const createDigestMessages = async (
+	watch: FolderWatch,
+	files: drive_v3.Schema$File[],
+	channel: GuildTextBasedChannel,
+	rendering: RenderingOptions,
+): Promise<
+	{ options: MessageCreateOptions; files: EmbedFile[]; fileIds: string[] }[]
+> => {
+	const resolvedFiles = await Promise.all(
+		files
+			.slice(0, maxNotifiedFiles)
+			// keep the ID in the metadata to find the listed ID of shortcuts
+			.flatMap((file) =>
+				file.id ? [resolveShortcut({ id: file.id, data: file })] : [],
+			),
+	);
+	const { files: notifiedFiles } = await applyAccessPolicy(
+		channel,
+		resolvedFiles,
+		"watch",
+	);
+	if (notifiedFiles.length === 0) {
+		return [];
+	}
+	// do not count files hidden by the policy
+	const fileCount =
+		files.length - (resolvedFiles.length - notifiedFiles.length);
+	const folderLink = hyperlink(
+		escapeLinkText(watch.folderName),
+		hideLinkEmbed(`https://drive.google.com/drive/folders/${watch.folderId}`),
+	);
+	const header = `${fileCount} ${fileCount > 1 ? "files were" : "file was"} ${
+		watch.events === "created" ? "added" : "added or modified"
+	} in ${folderLink}${
+		fileCount > maxNotifiedFiles
+			? `, showing the latest ${maxNotifiedFiles}`
+			: ""
+	}.`;
+
+	const messages: {
+		options: MessageCreateOptions;
+		files: EmbedFile[];
+		fileIds: string[];
+	}[] = [];
+	for (let i = 0; i < notifiedFiles.length; i += maxEmbedsPerMessage) {
+		const messageFiles = notifiedFiles.slice(i, i + maxEmbedsPerMessage);
+		const {
+			embeds,
+			components,
+			files: attachments,
+		} = await createFileEmbeds(messageFiles, rendering);
+		messages.push({
+			options: {
+				...(i === 0 ? { content: header } : {}),
+				embeds,
+				components,
+				files: attachments,
+			},
+			// neutral cards of restricted files reveal nothing
+			files: messageFiles.filter(({ restricted }) => !restricted),
+			// IDs of shortcuts rather than their targets, as listed in the folders
+			fileIds: messageFiles.map(({ id, shortcut }) => shortcut?.id ?? id),
+		});
+	}
+	return messages;
+};
+
+/**
+ * Fetch the channel of a watch, deleting the watch if the channel has been deleted.
+ * @param client client to fetch the channel
+ * @param watch watch of the folder
+ * @returns channel, or undefined if notifications cannot be posted to it
+ */
+const fetchWatchChannel = async (
+	client: Client<true>,
+	watch: FolderWatch,
+): Promise<GuildTextBasedChannel | undefined> => {
+	const channel = await client.channels
+		.fetch(watch.channelId)
+		.catch((error) => {
+			if (
+				error instanceof DiscordAPIError &&
+				error.code === RESTJSONErrorCodes.UnknownChannel
+			) {
+				return null;
+			}
+			throw error;
+		});
+	if (!channel) {
+		consola.info(
+			`Deleted the watch of ${watch.folderId} since channel ${watch.channelId} is deleted.`,
+		);
+		deleteFolderWatch(watch);
+		return;
+	}
+	if (
+		!(
+			channel.isTextBased() &&
+			!channel.isDMBased() &&
+			channel.isSendable() &&
+			isEnabledChannel(channel)
+		)
+	) {
+		return;
+	}
+	return channel;
+};
+
+/**
+ * Poll a watched folder once, and post notifications of changed files.
+ * @param client client to fetch the channel
+ * @param watch watch of the folder
+ */
+const pollFolderWatch = async (client: Client<true>, watch: FolderWatch) => {
+	// record the time before listing not to miss changes during the poll
+	const startedAt = new Date().toISOString();
+	const channel = await fetchWatchChannel(client, watch);
+	const rendering = channel ? getRenderingOptions(channel) : undefined;
+	if (!(channel && rendering)) {
+		return;
+	}
+
+	const { folderIds, resourceKeys } = await listWatchedFolders(watch);
+	const files = (
+		await listFilesInFolders(
+			folderIds,
+			{ changedAfter: watch.cursor },
+			`createdTime,${fileFields}`,
+			maxListedFiles,
+			resourceKeys,
+		)
+	).filter(
+		(file) =>
+			matchesWatch(watch, file) &&
+			!!file.id &&
+			!isRecentlyNotified(watch.channelId, file.id),
+	);
+	// do not parallelize to keep the order of messages
+	for (const {
+		options,
+		files: shownFiles,
+		fileIds,
+	} of await createDigestMessages(watch, files, channel, rendering)) {
+		const message = await channel.send(options);
+		// record only files which are actually notified, to notify the rest in the next poll if sending fails
+		for (const fileId of fileIds) {
+			recordNotification(watch.channelId, fileId);
+		}
+		await auditEmbeds(
+			{
+				id: message.id,
+				guildId: message.guildId,
+				channelId: message.channelId,
+				client: message.client,
+				// digests are posted by the bot rather than on behalf of a user
+				author: null,
+			},
+			"created",
+			shownFiles,
+		);
+	}
+	saveFolderWatchCursor(watch, startedAt);
+};
+
+/**
+ * Poll all watched folders once.
+ * @param client client to fetch channels
+ */
+export const pollFolderWatches = async (client: Client<true>) => {
+	// do not parallelize to avoid rate limit
+	for (const watch of findFolderWatches()) {
+		try {
+			await pollFolderWatch(client, watch);
+		} catch (error) {
+			consola.error(
+				`Failed to poll folder ${watch.folderId} watched in ${watch.channelId}.`,
+			);
+			// do not use consola#error to throw Error since it cannot handle line numbers correctly
+			console.error(error);
+		}
+	}
+};
+
+/**
+ * Start polling watched folders to post notifications of changed files.
+ * @param client client after ready event
+ */
+export const startFolderWatcher = async (client: Client<true>) => {
+	if (!(pollInterval > 0)) {
+		consola.info("Watching folders is disabled.");
+		return;
+	}
+
+	// wait for each poll to finish to avoid overlapping polls
+	while (true) {
+		await pollFolderWatches(client);
+		await sleep(pollInterval);
+	}
+};
@@ -0,0 +1,177 @@
+import { database } from "./database";
+import type { FileTypeId } from "./fileTypes";
+
+/**
+ * Changes of files to notify, `created` for added files only or `modified` for added or modified files.
+ */
+export type WatchEvents = "created" | "modified";
+
+/**
+ * Watch of a Google Drive folder, configured by `/drive watch`.
+ */
+export type FolderWatch = {
+	guildId: string;
+	/**
+	 * ID of the channel to post notifications to.
+	 */
+	channelId: string;
+	folderId: string;
+	/**
+	 * Resource key of the folder, required to list files in some folders shared by links.
+	 */
+	resourceKey?: string;
+	/**
+	 * Name of the folder when the watch is created, to list watches without requests to Google Drive.
+	 */
+	folderName: string;
+	/**
+	 * Whether to watch files in subfolders too.
+	 */
+	subfolders: boolean;
+	events: WatchEvents;
+	/**
+	 * Type of files to notify, or undefined for all types.
+	 */
+	fileType?: FileTypeId;
+	/**
+	 * Time in RFC 3339 format until which changes have been notified.
+	 */
+	cursor: string;
+};
+
+database.exec(`
+	CREATE TABLE IF NOT EXISTS folder_watches (
+		channel_id TEXT NOT NULL,
+		folder_id TEXT NOT NULL,
+		resource_key TEXT,
+		guild_id TEXT NOT NULL,
+		folder_name TEXT NOT NULL,
+		subfolders INTEGER NOT NULL,
+		events TEXT NOT NULL,
+		file_type TEXT,
+		cursor TEXT NOT NULL,
+		PRIMARY KEY (channel_id, folder_id)
+	);
+	CREATE INDEX IF NOT EXISTS folder_watches_guild_id ON folder_watches (guild_id);
+`);
+
+// add columns missing in tables created by older versions
+if (
+	!database
+		.query<{ name: string }, []>("PRAGMA table_info(folder_watches)")
+		.all()
+		.some(({ name }) => name === "resource_key")
+) {
+	database.exec("ALTER TABLE folder_watches ADD COLUMN resource_key TEXT;");
+}
+
+type FolderWatchRow = {
+	guildId: string;
+	channelId: string;
+	folderId: string;
+	resourceKey: string | null;
+	folderName: string;
+	subfolders: number;
+	events: WatchEvents;
+	fileType: FileTypeId | null;
+	cursor: string;
+};
+
+const selectColumns =
+	"guild_id AS guildId, channel_id AS channelId, folder_id AS folderId, resource_key AS resourceKey, folder_name AS folderName, subfolders, events, file_type AS fileType, cursor";
+const selectAllWatchesQuery = database.query<FolderWatchRow, []>(
+	`SELECT ${selectColumns} FROM folder_watches`,
+);
+const selectGuildWatchesQuery = database.query<
+	FolderWatchRow,
+	{ guildId: string }
+>(`SELECT ${selectColumns} FROM folder_watches WHERE guild_id = $guildId`);
+const upsertWatchQuery = database.query<never, FolderWatchRow>(
+	// keep the cursor to avoid notifying changes twice when a watch is updated
+	"INSERT INTO folder_watches (guild_id, channel_id, folder_id, resource_key, folder_name, subfolders, events, file_type, cursor) VALUES ($guildId, $channelId, $folderId, $resourceKey, $folderName, $subfolders, $events, $fileType, $cursor) ON CONFLICT (channel_id, folder_id) DO UPDATE SET resource_key = excluded.resource_key, folder_name = excluded.folder_name, subfolders = excluded.subfolders, events = excluded.events, file_type = excluded.file_type",
+);
+const updateCursorQuery = database.query<
+	never,
+	{ channelId: string; folderId: string; cursor: string }
+>(
+	"UPDATE folder_watches SET cursor = $cursor WHERE channel_id = $channelId AND folder_id = $folderId",
+);
+const deleteWatchQuery = database.query<
+	never,
+	{ channelId: string; folderId: string }
+>(
+	"DELETE FROM folder_watches WHERE channel_id = $channelId AND folder_id = $folderId",
+);
+
+/**
+ * Convert a row of the table into a watch.
+ * @param row row of the table
+ * @returns watch
+ */
+const toFolderWatch = ({
+	resourceKey,
+	subfolders,
+	fileType,
+	...rest
+}: FolderWatchRow): FolderWatch => ({
+	...rest,
+	...(resourceKey === null ? {} : { resourceKey }),
+	subfolders: subfolders === 1,
+	...(fileType === null ? {} : { fileType }),
+});
+
+/**
+ * Find all watches.
+ * @returns watches in all guilds
+ */
+export const findFolderWatches = (): FolderWatch[] =>
+	selectAllWatchesQuery.all().map(toFolderWatch);
+
+/**
+ * Find the watches in a guild.
+ * @param guildId ID of the guild
+ * @returns watches in the guild
+ */
+export const findGuildFolderWatches = (guildId: string): FolderWatch[] =>
+	selectGuildWatchesQuery.all({ guildId }).map(toFolderWatch);
+
+/**
+ * Save a watch, replacing the options of the existing watch of the same folder in the same channel.
+ * @param watch watch to save
+ */
+export const saveFolderWatch = ({
+	resourceKey,
+	subfolders,
+	fileType,
+	...rest
+}: FolderWatch) => {
+	upsertWatchQuery.run({
+		...rest,
+		resourceKey: resourceKey ?? null,
+		subfolders: subfolders ? 1 : 0,
+		fileType: fileType ?? null,
+	});
+};
+
+/**
+ * Record the time until which changes of a watch have been notified.
+ * @param watch channel and folder of the watch
+ * @param cursor time in RFC 3339 format
+ */
+export const saveFolderWatchCursor = (
+	{ channelId, folderId }: Pick<FolderWatch, "channelId" | "folderId">,
+	cursor: string,
+) => {
+	updateCursorQuery.run({ channelId, folderId, cursor });
+};
+
+/**
+ * Delete a watch.
+ * @param watch channel and folder of the watch
+ */
+export const deleteFolderWatch = ({
+	channelId,
+	folderId,
+}: Pick<FolderWatch, "channelId" | "folderId">) => {
+	deleteWatchQuery.run({ channelId, folderId });
+};
@@ -0,0 +1,183 @@
+import type { drive_v3 } from "@googleapis/drive";
+import {
+	ActionRowBuilder,
+	ButtonBuilder,
+	ButtonStyle,
+	ComponentType,
+	EmbedBuilder,
+	type InteractionEditReplyOptions,
+	MessageFlags,
+	hyperlink,
+	time,
+} from "discord.js";
+import type { ExecutableComponent } from "./commands";
+import {
+	type FileTypeId,
+	type FileTypeOverride,
+	getFileType,
+} from "./fileTypes";
+import { folderMimeType, getFile, listFolderPage } from "./gdrive";
+import { getRenderingOptions } from "./guilds";
+import { createCustomId } from "./util/customId";
+import { escapeLinkText } from "./util/markdown";
+
+const folderButtonPrefix = "folder";
+
+// labels of buttons are limited to 80 characters
+// ref: https://discord.com/developers/docs/interactions/message-components#button-object
+const maxButtonLabelLength = 80;
+// a row can contain up to 5 buttons
+const maxSubfolderButtons = 5;
+
+/**
+ * Create a line listing a file in a folder.
+ * @param file metadata of the file
+ * @param fileTypeOverrides appearances overridden per file type
+ * @returns line in markdown
+ */
+const createFileLine = (
+	{ id, name, mimeType, modifiedTime, webViewLink }: drive_v3.Schema$File,
+	fileTypeOverrides: Partial<Record<FileTypeId, FileTypeOverride>>,
+): string => {
+	const { emoji, label } = getFileType(mimeType, fileTypeOverrides);
+	const modified = modifiedTime
+		? ` · ${time(new Date(modifiedTime), "R")}`
+		: "";
+	const title = escapeLinkText(name ?? id ?? "Untitled");
+	const link = webViewLink ? hyperlink(title, webViewLink) : title;
+	return `${emoji} ${link} · ${label}${modified}`;
+};
+
+/**
+ * Create a page of the contents of a folder.
+ * @param folderId ID of the folder
+ * @param page zero-based index of the page
+ * @param fileTypeOverrides appearances overridden per file type
+ * @returns description listing files, and rows of buttons to navigate
+ */
+export const createFolderPage = async (
+	folderId: string,
+	page: number,
+	fileTypeOverrides: Partial<Record<FileTypeId, FileTypeOverride>> = {},
+): Promise<{
+	description: string;
+	components: ActionRowBuilder<ButtonBuilder>[];
+}> => {
+	const { files, hasNextPage } = await listFolderPage(folderId, page);
+
+	const navigationRow = new ActionRowBuilder<ButtonBuilder>().setComponents(
+		new ButtonBuilder()
+			.setCustomId(createCustomId(folderButtonPrefix, folderId, page - 1))
+			.setLabel("‹ Previous")
+			.setStyle(ButtonStyle.Secondary)
+			.setDisabled(page === 0),
+		new ButtonBuilder()
+			.setCustomId(createCustomId(folderButtonPrefix, folderId, page + 1))
+			.setLabel("Next ›")
+			.setStyle(ButtonStyle.Secondary)
+			.setDisabled(!hasNextPage),
+	);
+	const subfolderButtons = files
+		.filter(({ id, mimeType }) => id && mimeType === folderMimeType)
+		.slice(0, maxSubfolderButtons)
+		.map(({ id, name }) =>
+			new ButtonBuilder()
+				// biome-ignore lint/style/noNonNullAssertion: filtered above
+				.setCustomId(createCustomId(folderButtonPrefix, id!, 0))
+				.setLabel(`📁 ${name ?? id}`.slice(0, maxButtonLabelLength))
+				.setStyle(ButtonStyle.Primary),
+		);
+
+	return {
+		description:
+			files.length > 0
+				? files
+						.map((file) => createFileLine(file, fileTypeOverrides))
+						.join("\n")
+				: "This folder is empty.",
+		components: [
+			// omit the navigation row if there is only one page
+			...(page > 0 || hasNextPage ? [navigationRow] : []),
+			...(subfolderButtons.length > 0
+				? [
+						new ActionRowBuilder<ButtonBuilder>().setComponents(
+							subfolderButtons,
+						),
+					]
+				: []),
+		],
+	};
+};
+
+/**
+ * Create a message to browse a page of a folder.
+ * @param folderId ID of the folder
+ * @param page zero-based index of the page
+ * @param fileTypeOverrides appearances overridden per file type
+ * @returns options to edit the reply, with an error message if the folder is not accessible
+ */
+const createFolderMessage = async (
+	folderId: string,
+	page: number,
+	fileTypeOverrides: Partial<Record<FileTypeId, FileTypeOverride>>,
+): Promise<InteractionEditReplyOptions> => {
+	const folder = await getFile(folderId);
+	if (!folder?.name) {
+		return {
+			content: "This folder is not accessible. It might not be shared.",
+			embeds: [],
+			components: [],
+		};
+	}
+
+	const { description, components } = await createFolderPage(
+		folderId,
+		page,
+		fileTypeOverrides,
+	);
+	return {
+		content: "",
+		embeds: [
+			new EmbedBuilder()
+				.setTitle(folder.name)
+				.setURL(folder.webViewLink ?? null)
+				.setColor(getFileType(folderMimeType, fileTypeOverrides).color)
+				.setDescription(description)
+				.setFooter({ text: `Page ${page + 1}` }),
+		],
+		components,
+	};
+};
+
+/**
+ * Button to browse a page of a folder.
+ * Pressing it in an embeds message replies with an ephemeral browser,
+ * and pressing it in the browser updates the browser.
+ */
+export const folderButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: folderButtonPrefix,
+	execute: async (interaction, [folderId, page]) => {
+		const pageNumber = Number(page);
+		if (!(folderId && Number.isInteger(pageNumber) && pageNumber >= 0)) {
+			throw new Error(`Invalid custom ID: ${interaction.customId}`);
+		}
+
+		if (interaction.message.flags.has(MessageFlags.Ephemeral)) {
+			await interaction.deferUpdate();
+		} else {
+			await interaction.deferReply({ ephemeral: true });
+		}
+		const rendering =
+			interaction.channel && !interaction.channel.isDMBased()
+				? getRenderingOptions(interaction.channel)
+				: undefined;
+		await interaction.editReply(
+			await createFolderMessage(
+				folderId,
+				pageNumber,
+				rendering?.fileTypes ?? {},
+			),
+		);
+	},
+};
@@ -1,49 +1,820 @@
 import { auth, drive_v3 } from "@googleapis/drive";
-import { env } from "bun";
+import { GaxiosError } from "gaxios";
+import { type Config, config } from "./config";
+import { database } from "./database";
+import {
+	driveErrorsCounter,
+	driveRequestDurationHistogram,
+	driveRequestsCounter,
+	fileCacheCounter,
+} from "./metrics";
+import { retry } from "./util/retry";
 
 /**
- * Google Drive API client with a scope `https://www.googleapis.com/auth/drive.metadata.readonly`.
+ * Scope of Google Drive the bot uses, which only allows reading metadata of files unless content access is enabled.
+ * @see https://developers.google.com/identity/protocols/oauth2/scopes#drive
  */
-export const driveClient = new drive_v3.Drive({
-	auth: new auth.GoogleAuth({
+export const driveScope = config.google.contentAccess
+	? "https://www.googleapis.com/auth/drive.readonly"
+	: "https://www.googleapis.com/auth/drive.metadata.readonly";
+
+/**
+ * Create an authentication client of Google APIs for the configured mode.
+ * @param google settings of Google Drive authentication
+ * @returns authentication client limited to the scope of Google Drive the bot needs
+ */
+const createGoogleAuth = (google: Config["google"]) => {
+	if (google.authMode === "oauth") {
+		// the scopes are fixed when the user authorizes the bot, see `findExcessScopes`
+		return new auth.GoogleAuth({
+			credentials: {
+				type: "authorized_user",
+				// biome-ignore lint/style/useNamingConvention: library's naming convention
+				client_id: google.clientId,
+				// biome-ignore lint/style/useNamingConvention: library's naming convention
+				client_secret: google.clientSecret,
+				// biome-ignore lint/style/useNamingConvention: library's naming convention
+				refresh_token: google.refreshToken,
+			},
+		});
+	}
+	return new auth.GoogleAuth({
 		credentials: {
 			// biome-ignore lint/style/useNamingConvention: library's naming convention
-			client_email: env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-			// replace \n with actual newlines
+			client_email: google.serviceAccountEmail,
 			// biome-ignore lint/style/useNamingConvention: library's naming convention
-			private_key: env.GOOGLE_SERVICE_ACCOUNT_KEY.replace(/\\n/g, "\n"),
+			private_key: google.serviceAccountKey,
 		},
-		// we only need to read metadata of files, not their contents
-		// ref: https://developers.google.com/identity/protocols/oauth2/scopes#drive
-		scopes: ["https://www.googleapis.com/auth/drive.metadata.readonly"],
-	}),
-});
-
-/**
- * Google Drive file types and their brand colors.
- */
-// ref: https://developers.google.com/drive/api/guides/mime-types
-export const fileTypes: Record<
-	"docs" | "sheets" | "slides" | "forms" | "others",
-	{ mime?: string; color: `#${string}` }
-> = {
-	docs: {
-		mime: "application/vnd.google-apps.document",
-		color: "#4285f4",
-	},
-	sheets: {
-		mime: "application/vnd.google-apps.spreadsheet",
-		color: "#0f9d58",
-	},
-	slides: {
-		mime: "application/vnd.google-apps.presentation",
-		color: "#f4b400",
-	},
-	forms: {
-		mime: "application/vnd.google-apps.form",
-		color: "#7627bb",
+		// act as the user with domain-wide delegation
+		// ref: https://developers.google.com/identity/protocols/oauth2/service-account#delegatingauthority
+		...(google.authMode === "delegation"
+			? { clientOptions: { subject: google.subject } }
+			: {}),
+		scopes: [driveScope],
+	});
+};
+
+const googleAuth = createGoogleAuth(config.google);
+
+/**
+ * Describe the account which the bot uses to access Google Drive.
+ * @returns description of the account for logs
+ */
+export const describeDriveAccount = (): string => {
+	const { google } = config;
+	if (google.authMode === "oauth") {
+		return "User authorized with OAuth";
+	}
+	if (google.authMode === "delegation") {
+		return `${google.subject} impersonated by service account ${google.serviceAccountEmail}`;
+	}
+	return `Service account ${google.serviceAccountEmail}`;
+};
+
+/**
+ * Find scopes granted to the bot but not needed, which happens if the user authorized too many scopes with OAuth.
+ * @returns scopes granted in addition to the needed one
+ */
+export const findExcessScopes = async (): Promise<string[]> => {
+	const client = await googleAuth.getClient();
+	// make sure that the access token and its scopes are fetched
+	await client.getAccessToken();
+	return (client.credentials.scope?.split(" ") ?? []).filter(
+		(scope) => scope !== driveScope,
+	);
+};
+
+/**
+ * Google Drive API client with a scope `https://www.googleapis.com/auth/drive.metadata.readonly`,
+ * or `https://www.googleapis.com/auth/drive.readonly` if content access is enabled.
+ * It accesses files as the service account, the impersonated user, or the OAuth user.
+ */
+export const driveClient = new drive_v3.Drive({ auth: googleAuth });
+
+// shared by all copies of gaxios, see `GaxiosError[Symbol.hasInstance]`
+const gaxiosErrorSymbol = Symbol.for("gaxios-gaxios-error");
+
+/**
+ * Check if an error is thrown by gaxios.
+ * `instanceof GaxiosError` fails for errors from the copies of other versions bundled in googleapis.
+ * @param error error thrown by Google Drive API client
+ * @returns true if the error is a gaxios error
+ */
+const isGaxiosError = (error: unknown): error is GaxiosError =>
+	error instanceof GaxiosError ||
+	(typeof error === "object" && error !== null && gaxiosErrorSymbol in error);
+
+/**
+ * Check if an error from Google Drive API is caused by a file not found.
+ * Files not shared with the account of the bot are also reported as not found.
+ * @param error error thrown by Google Drive API client
+ * @returns true if the error is a not found error
+ */
+export const isNotFoundError = (error: unknown): boolean =>
+	isGaxiosError(error) &&
+	error.response?.data.error.errors.some(
+		({ reason }: { reason: string }) => reason === "notFound",
+	);
+
+/**
+ * Check if an error from Google Drive API is caused by insufficient permissions.
+ * @param error error thrown by Google Drive API client
+ * @returns true if the error is a forbidden error except for rate limits
+ */
+const isForbiddenError = (error: unknown): boolean =>
+	isGaxiosError(error) &&
+	error.response?.status === 403 &&
+	error.response.data.error.errors.some(({ reason }: { reason: string }) =>
+		["insufficientFilePermissions", "forbidden"].includes(reason),
+	);
+
+/**
+ * Check if an error from Google Drive API is transient and the request can be retried.
+ * @param error error thrown by Google Drive API client
+ * @returns true if the request should be retried
+ */
+// ref: https://developers.google.com/drive/api/guides/handle-errors
+const isRetryableError = (error: unknown): boolean => {
+	if (!isGaxiosError(error)) {
+		return false;
+	}
+	const status = error.response?.status;
+	// retry network errors without responses
+	if (!status) {
+		return true;
+	}
+	return (
+		status === 429 ||
+		status >= 500 ||
+		(status === 403 &&
+			error.response?.data.error.errors.some(({ reason }: { reason: string }) =>
+				["rateLimitExceeded", "userRateLimitExceeded"].includes(reason),
+			))
+	);
+};
+
+// times of the last request to Google Drive API which succeeded or failed unexpectedly, for readiness checks
+let lastDriveSuccessAt: number | undefined;
+let lastDriveFailureAt: number | undefined;
+
+/**
+ * Get the reason of an error from Google Drive API.
+ * @param error error thrown by Google Drive API client
+ * @returns reason in the response, or a kind of the error if not available
+ */
+const getErrorReason = (error: unknown): string => {
+	if (!isGaxiosError(error)) {
+		return "unknown";
+	}
+	if (!error.response) {
+		return "network";
+	}
+	return (
+		error.response.data?.error?.errors?.[0]?.reason ??
+		`http_${error.response.status}`
+	);
+};
+
+/**
+ * Call Google Drive API once, and record its result and latency in metrics.
+ * @param request function to call the API
+ * @returns response of the API
+ */
+const measureDriveRequest = async <T>(
+	request: () => Promise<T>,
+): Promise<T> => {
+	const startedAt = performance.now();
+	try {
+		const response = await request();
+		driveRequestsCounter.inc({ result: "success" });
+		lastDriveSuccessAt = Date.now();
+		return response;
+	} catch (error) {
+		driveRequestsCounter.inc({ result: "error" });
+		driveErrorsCounter.inc({ reason: getErrorReason(error) });
+		// files not shared with the bot are expected, and do not mean the API is unhealthy
+		if (!(isNotFoundError(error) || isForbiddenError(error))) {
+			lastDriveFailureAt = Date.now();
+		}
+		throw error;
+	} finally {
+		driveRequestDurationHistogram.observe(
+			(performance.now() - startedAt) / 1000,
+		);
+	}
+};
+
+/**
+ * Call Google Drive API, retrying with exponential backoff on transient errors.
+ * @param request function to call the API
+ * @returns response of the API
+ */
+export const withDriveRetry = <T>(request: () => Promise<T>): Promise<T> =>
+	retry(() => measureDriveRequest(request), { isRetryable: isRetryableError });
+
+let driveAccountEmail: string | undefined;
+
+/**
+ * Get the email of the Google account which files must be shared with for the bot to access them.
+ * @returns email of the service account, the impersonated user, or the OAuth user
+ */
+export const getDriveAccountEmail = async (): Promise<string | undefined> => {
+	if (!driveAccountEmail) {
+		const { data } = await withDriveRetry(() =>
+			driveClient.about.get({ fields: "user(emailAddress)" }),
+		);
+		driveAccountEmail = data.user?.emailAddress ?? undefined;
+	}
+	return driveAccountEmail;
+};
+
+/**
+ * Check if Google Drive API is available, based on the results of recent requests.
+ * @returns true if a request has succeeded and no request has failed unexpectedly since then
+ */
+export const isDriveReady = (): boolean =>
+	lastDriveSuccessAt !== undefined &&
+	(lastDriveFailureAt === undefined ||
+		lastDriveSuccessAt >= lastDriveFailureAt);
+
+/**
+ * Fields of files retrieved by `getFile`, which are required to create embeds.
+ */
+// docs: https://developers.google.com/drive/api/guides/fields-parameter
+export const fileFields =
+	"name,webViewLink,mimeType,resourceKey,modifiedTime,iconLink,size,parents,owners(displayName),lastModifyingUser(displayName),shortcutDetails(targetId,targetResourceKey),hasThumbnail,thumbnailLink,thumbnailVersion";
+
+/**
+ * Time to live of cached file metadata, in milliseconds.
+ */
+const fileCacheTtl = config.cache.ttlSeconds * 1000;
+const maxCachedFiles = 10_000;
+const shouldPersistFileCache = config.cache.persist;
+
+type CachedFile = {
+	/**
+	 * File metadata, or undefined if the file is not accessible.
+	 */
+	file: drive_v3.Schema$File | undefined;
+	expiresAt: number;
+};
+// keyed by `createFileCacheKey`, since files might be accessible only with their resource keys
+const fileCache = new Map<string, CachedFile>();
+// requests in flight are shared to avoid fetching the same file concurrently
+const inFlightRequests = new Map<
+	string,
+	Promise<drive_v3.Schema$File | undefined>
+>();
+
+// `file_id` is the key of `createFileCacheKey`, which is the file ID itself for files without resource keys
+database.exec(`
+	CREATE TABLE IF NOT EXISTS file_cache (
+		file_id TEXT PRIMARY KEY,
+		data TEXT,
+		expires_at INTEGER NOT NULL
+	);
+`);
+const selectCachedFileQuery = database.query<
+	{ data: string | null; expiresAt: number },
+	{ fileId: string }
+>(
+	"SELECT data, expires_at AS expiresAt FROM file_cache WHERE file_id = $fileId",
+);
+const upsertCachedFileQuery = database.query<
+	never,
+	{ fileId: string; data: string | null; expiresAt: number }
+>(
+	"INSERT INTO file_cache (file_id, data, expires_at) VALUES ($fileId, $data, $expiresAt) ON CONFLICT (file_id) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at",
+);
+const deleteCachedFileQuery = database.query<never, { fileId: string }>(
+	// `LIKE` is not used since `_` in file IDs is a wildcard
+	"DELETE FROM file_cache WHERE file_id = $fileId OR substr(file_id, 1, length($fileId) + 1) = $fileId || '/'",
+);
+
+/**
+ * Create the key of the file cache.
+ * Files are cached separately with and without resource keys, not to reuse the result of one for the other.
+ * @param fileId ID of the file
+ * @param resourceKey resource key of the file, if any
+ * @returns key of the file cache
+ */
+const createFileCacheKey = (fileId: string, resourceKey?: string): string =>
+	resourceKey ? `${fileId}/${resourceKey}` : fileId;
+
+/**
+ * Read cached file metadata from the memory, or from the disk if persisted.
+ * @param cacheKey key created by `createFileCacheKey`
+ * @returns cached entry, or undefined if not cached
+ */
+const readFileCache = (cacheKey: string): CachedFile | undefined => {
+	const cached = fileCache.get(cacheKey);
+	if (cached || !shouldPersistFileCache) {
+		return cached;
+	}
+	const row = selectCachedFileQuery.get({ fileId: cacheKey });
+	if (!row) {
+		return;
+	}
+	const persisted = {
+		file: row.data ? JSON.parse(row.data) : undefined,
+		expiresAt: row.expiresAt,
+	};
+	fileCache.set(cacheKey, persisted);
+	return persisted;
+};
+
+/**
+ * Cache file metadata in the memory, and on the disk if enabled.
+ * @param cacheKey key created by `createFileCacheKey`
+ * @param file file metadata, or undefined if the file is not accessible
+ */
+const writeFileCache = (
+	cacheKey: string,
+	file: drive_v3.Schema$File | undefined,
+) => {
+	const expiresAt = Date.now() + fileCacheTtl;
+	if (fileCache.size >= maxCachedFiles) {
+		// Map iterates in insertion order, so the first key is the oldest
+		const [oldestKey] = fileCache.keys();
+		fileCache.delete(oldestKey ?? "");
+	}
+	fileCache.set(cacheKey, { file, expiresAt });
+	if (shouldPersistFileCache) {
+		upsertCachedFileQuery.run({
+			fileId: cacheKey,
+			data: file ? JSON.stringify(file) : null,
+			expiresAt,
+		});
+	}
+};
+
+/**
+ * Get the metadata of a file with `fileFields`, using the cache if available.
+ * Concurrent requests for the same file are coalesced into one.
+ * @param fileId ID of the file
+ * @param resourceKey resource key of the file, required for some files shared by links
+ * @returns file metadata, or undefined if the file is not accessible
+ */
+export const getFile = async (
+	fileId: string,
+	resourceKey?: string,
+): Promise<drive_v3.Schema$File | undefined> => {
+	const cacheKey = createFileCacheKey(fileId, resourceKey);
+	const cached = readFileCache(cacheKey);
+	if (cached && cached.expiresAt > Date.now()) {
+		fileCacheCounter.inc({ result: "hit" });
+		return cached.file;
+	}
+
+	const inFlightRequest = inFlightRequests.get(cacheKey);
+	if (inFlightRequest) {
+		fileCacheCounter.inc({ result: "coalesced" });
+		return await inFlightRequest;
+	}
+	fileCacheCounter.inc({ result: "miss" });
+
+	const request = withDriveRetry(() =>
+		driveClient.files.get(
+			{ fileId, fields: fileFields },
+			resourceKey
+				? {
+						// ref: https://developers.google.com/drive/api/guides/resource-keys
+						headers: {
+							"X-Goog-Drive-Resource-Keys": `${fileId}/${resourceKey}`,
+						},
+					}
+				: {},
+		),
+	)
+		.then(({ data }) => data)
+		.catch((error) => {
+			// the file might not be shared with the bot
+			if (isNotFoundError(error)) {
+				return undefined;
+			}
+			throw error;
+		})
+		.then((file) => {
+			// do not cache if invalidated while in flight
+			if (inFlightRequests.get(cacheKey) === request) {
+				writeFileCache(cacheKey, file);
+			}
+			return file;
+		})
+		.finally(() => {
+			if (inFlightRequests.get(cacheKey) === request) {
+				inFlightRequests.delete(cacheKey);
+			}
+		});
+	inFlightRequests.set(cacheKey, request);
+	return await request;
+};
+
+/**
+ * Invalidate the cached metadata of a file with and without resource keys, to fetch the latest one next time.
+ * @param fileId ID of the file
+ */
+export const invalidateFile = (fileId: string) => {
+	for (const cache of [fileCache, inFlightRequests]) {
+		for (const cacheKey of cache.keys()) {
+			if (cacheKey === fileId || cacheKey.startsWith(`${fileId}/`)) {
+				cache.delete(cacheKey);
+			}
+		}
+	}
+	if (shouldPersistFileCache) {
+		deleteCachedFileQuery.run({ fileId });
+	}
+};
+
+/**
+ * Size of the longer side of downloaded thumbnails, in pixels.
+ */
+const thumbnailSize = 640;
+const maxCachedThumbnails = 100;
+
+/**
+ * Thumbnail image downloaded from Google Drive.
+ */
+export type Thumbnail = {
+	data: Buffer;
+	contentType: string;
+	/**
+	 * Version of the thumbnail, which changes when the file is updated.
+	 */
+	version: string;
+};
+
+// thumbnails are keyed by file IDs and versions, so updated files are downloaded again
+const thumbnailCache = new Map<string, Thumbnail>();
+
+/**
+ * Download the thumbnail of a file, using the cache if available.
+ * Thumbnail links are short-lived and require authentication, so they cannot be embedded directly.
+ * @param fileId ID of the file
+ * @param file metadata of the file, fetched by `getFile`
+ * @returns thumbnail, or undefined if the file has no accessible thumbnail
+ */
+export const getThumbnail = async (
+	fileId: string,
+	{ thumbnailLink, thumbnailVersion }: drive_v3.Schema$File,
+): Promise<Thumbnail | undefined> => {
+	// thumbnail links are only returned if the bot can access the contents of the file
+	if (!(config.google.contentAccess && thumbnailLink)) {
+		return;
+	}
+	const version = thumbnailVersion ?? "0";
+	const cacheKey = `${fileId}:${version}`;
+	const cached = thumbnailCache.get(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	// thumbnail links end with a size parameter like `=s220`, which can be changed to resize
+	const url = thumbnailLink.replace(/=s\d+$/, `=s${thumbnailSize}`);
+	const { data, headers } = await withDriveRetry(() =>
+		googleAuth.request<ArrayBuffer>({ url, responseType: "arraybuffer" }),
+	);
+	const thumbnail = {
+		data: Buffer.from(data),
+		contentType: headers.get("content-type") ?? "image/png",
+		version,
+	};
+	if (thumbnailCache.size >= maxCachedThumbnails) {
+		const [oldestKey] = thumbnailCache.keys();
+		thumbnailCache.delete(oldestKey ?? "");
+	}
+	thumbnailCache.set(cacheKey, thumbnail);
+	return thumbnail;
+};
+
+/**
+ * Get the names of folders from the outermost accessible folder to a folder.
+ * @param folderId ID of the innermost folder
+ * @param rootFolderIds IDs of folders to stop at, whose parents are not included
+ * @returns names of folders, or an empty array if the folder is not accessible
+ */
+export const getFolderPath = async (
+	folderId: string,
+	rootFolderIds: string[] = [],
+): Promise<string[]> => {
+	const path: string[] = [];
+	const visitedIds = new Set<string>();
+	let currentId: string | undefined = folderId;
+	// guard against cycles, which should not happen in Google Drive
+	while (currentId && !visitedIds.has(currentId)) {
+		visitedIds.add(currentId);
+		// parent folders might not be shared with the bot
+		const folder = await getFile(currentId);
+		if (!folder?.name) {
+			break;
+		}
+		path.unshift(folder.name);
+		if (rootFolderIds.includes(currentId)) {
+			break;
+		}
+		currentId = folder.parents?.[0];
+	}
+	return path;
+};
+
+/**
+ * MIME type of Google Drive folders.
+ */
+export const folderMimeType = "application/vnd.google-apps.folder";
+
+/**
+ * MIME type of Google Drive shortcuts.
+ */
+export const shortcutMimeType = "application/vnd.google-apps.shortcut";
+
+/**
+ * Number of files listed in a page of folder contents.
+ */
+export const folderPageSize = 10;
+
+// page tokens are cached to jump to a page without listing the previous pages
+const maxCachedPageTokens = 1000;
+const pageTokenCache = new Map<string, string>();
+
+/**
+ * Cache a page token, evicting the oldest one if the cache is full.
+ * @param key key of the page
+ * @param pageToken page token to cache
+ */
+const cachePageToken = (key: string, pageToken: string) => {
+	if (pageTokenCache.size >= maxCachedPageTokens) {
+		// Map iterates in insertion order, so the first key is the oldest
+		const [oldestKey] = pageTokenCache.keys();
+		pageTokenCache.delete(oldestKey ?? "");
+	}
+	pageTokenCache.set(key, pageToken);
+};
+
+/**
+ * List a page of files in a folder, sorted by last modified time in descending order.
+ * @param folderId ID of the folder
+ * @param page zero-based index of the page
+ * @returns files in the page, and whether the next page exists
+ */
+export const listFolderPage = async (
+	folderId: string,
+	page: number,
+): Promise<{ files: drive_v3.Schema$File[]; hasNextPage: boolean }> => {
+	const cacheKey = (page: number) => `${folderId}:${page}`;
+
+	// start from the nearest page whose token is cached
+	let currentPage = page;
+	while (currentPage > 0 && !pageTokenCache.has(cacheKey(currentPage))) {
+		currentPage--;
+	}
+	let pageToken =
+		currentPage > 0 ? pageTokenCache.get(cacheKey(currentPage)) : undefined;
+
+	while (true) {
+		const { data } = await withDriveRetry(() =>
+			driveClient.files.list({
+				// folder IDs only contain alphanumeric characters, hyphens, and underscores
+				q: `'${folderId}' in parents and trashed = false`,
+				orderBy: "modifiedTime desc",
+				pageSize: folderPageSize,
+				...(pageToken ? { pageToken } : {}),
+				fields:
+					"nextPageToken,files(id,name,mimeType,modifiedTime,webViewLink)",
+				includeItemsFromAllDrives: true,
+				supportsAllDrives: true,
+			}),
+		);
+		const { nextPageToken } = data;
+		if (nextPageToken) {
+			cachePageToken(cacheKey(currentPage + 1), nextPageToken);
+		}
+
+		if (currentPage === page) {
+			return { files: data.files ?? [], hasNextPage: !!nextPageToken };
+		}
+		if (!nextPageToken) {
+			// the page is out of range
+			return { files: [], hasNextPage: false };
+		}
+		pageToken = nextPageToken;
+		currentPage++;
+	}
+};
+
+/**
+ * Escape a string to use as a value in a query of files.
+ * @param value string to escape
+ * @returns escaped string, without surrounding quotes
+ */
+// ref: https://developers.google.com/drive/api/guides/ref-search-terms#operators
+const escapeQueryValue = (value: string): string =>
+	value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+
+/**
+ * Search files accessible by the account of the bot, sorted by last modified time in descending order.
+ * @param filters conditions of files to search
+ * @param fields fields of files to retrieve
+ * @param pageSize maximum number of files to retrieve
+ * @returns matched files
+ */
+export const searchFiles = async (
+	{
+		name,
+		mimeTypes,
+		folderId,
+	}: {
+		/**
+		 * Part of the names of files.
+		 */
+		name?: string | undefined;
+		/**
+		 * MIME types of files, exactly or by family, e.g. `image/*`.
+		 */
+		mimeTypes?: string[] | undefined;
+		/**
+		 * ID of the folder directly containing files.
+		 */
+		folderId?: string | undefined;
 	},
-	others: {
-		color: "#e3e5e8",
+	fields: string,
+	pageSize: number,
+): Promise<drive_v3.Schema$File[]> => {
+	const conditions = ["trashed = false"];
+	if (name) {
+		conditions.push(`name contains '${escapeQueryValue(name)}'`);
+	}
+	if (mimeTypes && mimeTypes.length > 0) {
+		const mimeConditions = mimeTypes.map((mimeType) =>
+			mimeType.endsWith("/*")
+				? `mimeType contains '${escapeQueryValue(mimeType.slice(0, -1))}'`
+				: `mimeType = '${escapeQueryValue(mimeType)}'`,
+		);
+		conditions.push(`(${mimeConditions.join(" or ")})`);
+	}
+	if (folderId) {
+		conditions.push(`'${escapeQueryValue(folderId)}' in parents`);
+	}
+	const { data } = await withDriveRetry(() =>
+		driveClient.files.list({
+			q: conditions.join(" and "),
+			orderBy: "modifiedTime desc",
+			pageSize,
+			includeItemsFromAllDrives: true,
+			supportsAllDrives: true,
+			fields: `files(id,${fields})`,
+		}),
+	);
+	return data.files ?? [];
+};
+
+/**
+ * List files matching a query across pages, sorted by last modified time in descending order.
+ * @param q query of files
+ * @param fields fields of files to retrieve
+ * @param maxFiles maximum number of files to retrieve
+ * @param resourceKeys resource keys of files in the query, keyed by their IDs
+ * @returns matched files
+ */
+const listAllFiles = async (
+	q: string,
+	fields: string,
+	maxFiles: number,
+	resourceKeys: Record<string, string>,
+): Promise<drive_v3.Schema$File[]> => {
+	const keys = Object.entries(resourceKeys).map(
+		([fileId, resourceKey]) => `${fileId}/${resourceKey}`,
+	);
+	const files: drive_v3.Schema$File[] = [];
+	let pageToken: string | undefined;
+	do {
+		// annotate to keep the narrowed type in the closure
+		const currentPageToken: string | undefined = pageToken;
+		const { data } = await withDriveRetry(() =>
+			driveClient.files.list(
+				{
+					q,
+					orderBy: "modifiedTime desc",
+					// a page can contain up to 1000 files
+					pageSize: Math.min(maxFiles - files.length, 1000),
+					...(currentPageToken ? { pageToken: currentPageToken } : {}),
+					includeItemsFromAllDrives: true,
+					supportsAllDrives: true,
+					fields: `nextPageToken,files(id,${fields})`,
+				},
+				keys.length > 0
+					? // ref: https://developers.google.com/drive/api/guides/resource-keys
+						{ headers: { "X-Goog-Drive-Resource-Keys": keys.join(",") } }
+					: {},
+			),
+		);
+		files.push(...(data.files ?? []));
+		pageToken = data.nextPageToken ?? undefined;
+	} while (pageToken && files.length < maxFiles);
+	return files;
+};
+
+// split folders into multiple queries since long queries are rejected
+const maxFoldersPerQuery = 20;
+
+/**
+ * List files directly in any of folders.
+ * @param folderIds IDs of the folders
+ * @param filters conditions of files to list
+ * @param fields fields of files to retrieve
+ * @param maxFiles maximum number of files to retrieve
+ * @param resourceKeys resource keys of the folders, keyed by their IDs, required for some folders shared by links
+ * @returns matched files
+ */
+export const listFilesInFolders = async (
+	folderIds: string[],
+	{
+		mimeType,
+		changedAfter,
+	}: {
+		/**
+		 * Exact MIME type of files.
+		 */
+		mimeType?: string | undefined;
+		/**
+		 * Time in RFC 3339 format, after which files are created or modified.
+		 */
+		changedAfter?: string | undefined;
 	},
+	fields: string,
+	maxFiles: number,
+	resourceKeys: Record<string, string> = {},
+): Promise<drive_v3.Schema$File[]> => {
+	const conditions = ["trashed = false"];
+	if (mimeType) {
+		conditions.push(`mimeType = '${escapeQueryValue(mimeType)}'`);
+	}
+	if (changedAfter) {
+		// uploaded files might keep their original modified time
+		conditions.push(
+			`(modifiedTime > '${escapeQueryValue(
+				changedAfter,
+			)}' or createdTime > '${escapeQueryValue(changedAfter)}')`,
+		);
+	}
+
+	const files: drive_v3.Schema$File[] = [];
+	for (let i = 0; i < folderIds.length; i += maxFoldersPerQuery) {
+		const parents = folderIds
+			.slice(i, i + maxFoldersPerQuery)
+			.map((folderId) => `'${escapeQueryValue(folderId)}' in parents`);
+		files.push(
+			...(await listAllFiles(
+				[...conditions, `(${parents.join(" or ")})`].join(" and "),
+				fields,
+				maxFiles - files.length,
+				resourceKeys,
+			)),
+		);
+		if (files.length >= maxFiles) {
+			break;
+		}
+	}
+	return files;
+};
+
+/**
+ * List the most recent revisions of a file, in reverse chronological order.
+ * @param fileId ID of the file
+ * @param count maximum number of revisions to list
+ * @returns revisions, or undefined if the revisions of the file are not accessible
+ */
+export const listRecentRevisions = async (
+	fileId: string,
+	count: number,
+): Promise<drive_v3.Schema$Revision[] | undefined> => {
+	// revisions are listed from the oldest, so list all and keep the last ones
+	const revisions: drive_v3.Schema$Revision[] = [];
+	let pageToken: string | undefined;
+	do {
+		// annotate to keep the narrowed type in the closure
+		const currentPageToken: string | undefined = pageToken;
+		let data: drive_v3.Schema$RevisionList;
+		try {
+			({ data } = await withDriveRetry(() =>
+				driveClient.revisions.list({
+					fileId,
+					pageSize: 1000,
+					...(currentPageToken ? { pageToken: currentPageToken } : {}),
+					fields:
+						"nextPageToken,revisions(id,modifiedTime,keepForever,lastModifyingUser(displayName))",
+				}),
+			));
+		} catch (error) {
+			// the file might not be shared with the bot, or the bot might not be allowed to see revisions
+			if (isNotFoundError(error) || isForbiddenError(error)) {
+				return;
+			}
+			throw error;
+		}
+		revisions.push(...(data.revisions ?? []));
+		revisions.splice(0, Math.max(revisions.length - count, 0));
+		pageToken = data.nextPageToken ?? undefined;
+	} while (pageToken);
+	return revisions.reverse();
 };
@@ -0,0 +1,460 @@
+import { file } from "bun";
+import { consola } from "consola";
+import {
+	type Channel,
+	type GuildBasedChannel,
+	OverwriteType,
+	PermissionFlagsBits,
+} from "discord.js";
+import {
+	type ChannelConfig,
+	type DetailLevel,
+	findChannelConfig,
+} from "./channelConfigs";
+import { config } from "./config";
+import { type FileTypeId, type FileTypeOverride, fileTypes } from "./fileTypes";
+import { type Schema, validateSchema } from "./util/schema";
+
+/**
+ * Options to render embeds of Google Drive files.
+ */
+export type RenderingOptions = {
+	/**
+	 * Whether to show the last modified time of files.
+	 */
+	timestamp: boolean;
+	/**
+	 * Whether to color embeds with the brand colors of file types.
+	 */
+	color: boolean;
+	/**
+	 * Whether to show the owners of files.
+	 */
+	owners: boolean;
+	/**
+	 * Whether to show the users who last modified files.
+	 */
+	lastModifyingUser: boolean;
+	/**
+	 * Whether to show the sizes of binary files.
+	 * Google Workspace files do not have sizes.
+	 */
+	fileSize: boolean;
+	/**
+	 * Whether to show the paths of parent folders.
+	 */
+	path: boolean;
+	/**
+	 * Whether to show the icons of file types.
+	 */
+	icon: boolean;
+	/**
+	 * Whether to show the names of file types in the footers.
+	 */
+	type: boolean;
+	/**
+	 * Where to show the thumbnails of files, or `none` to hide them.
+	 */
+	thumbnail: "none" | "image" | "thumbnail";
+	/**
+	 * Labels, names, colors, and emojis overridden per file type, keyed by their IDs.
+	 */
+	fileTypes: Partial<Record<FileTypeId, FileTypeOverride>>;
+};
+
+/**
+ * Policy of which Google Drive folders files can be shown from in each channel.
+ */
+export type AccessPolicy = {
+	/**
+	 * IDs of folders or shared drives allowed per channel or category, keyed by their IDs.
+	 */
+	channels: Record<string, string[]>;
+	/**
+	 * IDs of folders or shared drives allowed per role, keyed by their IDs.
+	 * Folders are allowed in a channel only if all roles which can view the channel are allowed them.
+	 */
+	roles: Record<string, string[]>;
+	/**
+	 * How to show files outside the allowed folders, `card` for neutral cards or `hide` for nothing.
+	 */
+	restricted: "card" | "hide";
+};
+
+/**
+ * Settings of a guild where the bot is allowed to be used.
+ */
+export type GuildSettings = {
+	/**
+	 * IDs of channels or categories where the bot is enabled.
+	 * The bot is enabled in all channels if undefined.
+	 */
+	channels?: string[];
+	rendering: RenderingOptions;
+	/**
+	 * Rendering options overridden per channel or category, keyed by their IDs.
+	 */
+	channelRendering: Record<string, Partial<RenderingOptions>>;
+	/**
+	 * Policy of folders which files can be shown from.
+	 * Files in any folder can be shown if undefined.
+	 */
+	access?: AccessPolicy;
+};
+
+const defaultRenderingOptions: RenderingOptions = {
+	timestamp: true,
+	color: true,
+	owners: false,
+	lastModifyingUser: false,
+	fileSize: false,
+	path: false,
+	icon: false,
+	type: true,
+	thumbnail: "none",
+	fileTypes: {},
+};
+
+const stringArraySchema: Schema = { type: "string[]" };
+const booleanSchema: Schema = { type: "boolean" };
+const renderingSchema: Schema = {
+	type: "object",
+	fields: {
+		timestamp: booleanSchema,
+		color: booleanSchema,
+		owners: booleanSchema,
+		lastModifyingUser: booleanSchema,
+		fileSize: booleanSchema,
+		path: booleanSchema,
+		icon: booleanSchema,
+		type: booleanSchema,
+		thumbnail: { type: "enum", values: ["none", "image", "thumbnail"] },
+		fileTypes: {
+			type: "object",
+			fields: Object.fromEntries(
+				Object.keys(fileTypes).map((id) => [
+					id,
+					{
+						type: "object",
+						fields: {
+							label: { type: "string" },
+							name: { type: "string" },
+							color: {
+								type: "string",
+								pattern: /^#[\da-f]{6}$/i,
+								format: "#rrggbb",
+							},
+							emoji: { type: "string" },
+						} satisfies Record<keyof FileTypeOverride, Schema>,
+					},
+				]),
+			),
+		},
+	} satisfies Record<keyof RenderingOptions, Schema>,
+};
+const guildSettingsFileSchema: Schema = {
+	type: "record",
+	keys: "snowflake",
+	values: {
+		type: "object",
+		fields: {
+			channels: stringArraySchema,
+			rendering: renderingSchema,
+			channelRendering: {
+				type: "record",
+				keys: "snowflake",
+				values: renderingSchema,
+			},
+			access: {
+				type: "object",
+				fields: {
+					channels: {
+						type: "record",
+						keys: "snowflake",
+						values: stringArraySchema,
+					},
+					roles: {
+						type: "record",
+						keys: "snowflake",
+						values: stringArraySchema,
+					},
+					restricted: { type: "enum", values: ["card", "hide"] },
+				} satisfies Record<keyof AccessPolicy, Schema>,
+			},
+		} satisfies Record<keyof GuildSettings, Schema>,
+	},
+};
+
+/**
+ * Guild settings as written in the JSON file, where all fields are optional.
+ */
+type GuildSettingsJson = Partial<
+	Omit<GuildSettings, "rendering" | "access">
+> & {
+	rendering?: Partial<RenderingOptions>;
+	access?: Partial<AccessPolicy>;
+};
+
+/**
+ * Read the JSON file of guild settings, and validate it.
+ * Exits the process with all errors reported if the file is invalid.
+ * @returns settings keyed by guild IDs, or an empty object if the file does not exist
+ */
+const readGuildSettingsFile = async (): Promise<
+	Record<string, GuildSettingsJson>
+> => {
+	const settingsFile = file(config.guildSettingsPath);
+	if (!(await settingsFile.exists())) {
+		return {};
+	}
+	const errors: string[] = [];
+	let contents: unknown;
+	try {
+		contents = await settingsFile.json();
+	} catch (error) {
+		errors.push(`${error}`);
+	}
+	// the schema ensures the types of the fields
+	const settingsJson =
+		contents === undefined
+			? undefined
+			: (validateSchema(contents, guildSettingsFileSchema, "", errors) as
+					| Record<string, GuildSettingsJson>
+					| undefined);
+
+	if (errors.length > 0) {
+		for (const error of errors) {
+			consola.error(`Invalid guild settings ${settingsFile.name}: ${error}`);
+		}
+		consola.error(
+			"The guild settings are invalid. Follow the instructions in README.md and fix the file.",
+		);
+		process.exit(1);
+	}
+	return settingsJson ?? {};
+};
+
+/**
+ * Load settings of allowed guilds.
+ * Guild IDs are read from `DISCORD_GUILD_IDS`, and settings are read from the JSON file at `GUILD_SETTINGS_PATH`.
+ * @returns map of guild IDs to their settings
+ */
+const loadGuildSettings = async (): Promise<Map<string, GuildSettings>> => {
+	const { guildIds } = config.discord;
+	const settingsJson = await readGuildSettingsFile();
+
+	for (const id of Object.keys(settingsJson)) {
+		if (!guildIds.includes(id)) {
+			consola.warn(
+				`Settings for guild ${id} in ${config.guildSettingsPath} are ignored because it is not in DISCORD_GUILD_IDS.`,
+			);
+		}
+	}
+
+	return new Map(
+		guildIds.map((id) => {
+			const { channels, rendering, channelRendering, access } =
+				settingsJson[id] ?? {};
+			const settings: GuildSettings = {
+				rendering: { ...defaultRenderingOptions, ...rendering },
+				channelRendering: channelRendering ?? {},
+			};
+			if (channels) {
+				settings.channels = channels;
+			}
+			if (access) {
+				settings.access = {
+					channels: access.channels ?? {},
+					roles: access.roles ?? {},
+					restricted: access.restricted ?? "card",
+				};
+			}
+			return [id, settings];
+		}),
+	);
+};
+
+/**
+ * Settings of allowed guilds, keyed by guild ID.
+ */
+export const guildSettings: ReadonlyMap<string, GuildSettings> =
+	await loadGuildSettings();
+
+/**
+ * Whether thumbnails are enabled in any guild or channel.
+ * They are only shown if the bot is allowed to access the contents of files by `google.contentAccess`.
+ */
+export const isThumbnailEnabled = [...guildSettings.values()].some(
+	({ rendering, channelRendering }) =>
+		[rendering, ...Object.values(channelRendering)].some(
+			({ thumbnail }) => thumbnail !== undefined && thumbnail !== "none",
+		),
+);
+
+/**
+ * Get the IDs of a guild channel and its ancestors.
+ * @param channel guild channel
+ * @returns IDs from the channel itself to its category
+ */
+const getChannelLineage = (channel: GuildBasedChannel): string[] => {
+	const parent = channel.isThread() ? channel.parent : undefined;
+	return [
+		channel.id,
+		channel.parentId,
+		// category of the parent channel of threads
+		parent?.parentId,
+	].filter((id): id is string => typeof id === "string");
+};
+
+/**
+ * Rendering options overridden by the detail level configured by `/drive config`.
+ */
+const detailRenderingOptions: Record<DetailLevel, Partial<RenderingOptions>> = {
+	compact: {
+		owners: false,
+		lastModifyingUser: false,
+		fileSize: false,
+		path: false,
+		icon: false,
+		type: false,
+		thumbnail: "none",
+	},
+	standard: {},
+	detailed: {
+		owners: true,
+		lastModifyingUser: true,
+		fileSize: true,
+		path: true,
+		icon: true,
+		type: true,
+	},
+};
+
+/**
+ * Get the behavior of the bot in a channel.
+ * Configs of the channel take precedence over its parents, and then the guild settings.
+ * @param channel guild channel
+ * @returns config of the channel, or undefined if the guild is not allowed
+ */
+export const getChannelConfig = (
+	channel: GuildBasedChannel,
+): ChannelConfig | undefined => {
+	const settings = guildSettings.get(channel.guildId);
+	if (!settings) {
+		return;
+	}
+	const lineage = getChannelLineage(channel);
+	const defaultConfig: ChannelConfig = {
+		// threads and channels in categories are enabled if their parents are enabled
+		enabled:
+			!settings.channels ||
+			lineage.some((id) => settings.channels?.includes(id)),
+		suppress: true,
+		detail: "standard",
+		reply: false,
+	};
+	return Object.assign(
+		defaultConfig,
+		// apply from the outermost to the innermost
+		...lineage.reverse().map(findChannelConfig),
+	);
+};
+
+/**
+ * Check if a channel is enabled in its guild settings or by `/drive config`.
+ * @param channel channel to check
+ * @returns true if the bot should act in the channel
+ */
+export const isEnabledChannel = (channel: Channel): boolean =>
+	!channel.isDMBased() && (getChannelConfig(channel)?.enabled ?? false);
+
+/**
+ * Get the rendering options for a channel.
+ * Options of the channel take precedence over its parents, and then the guild.
+ * The detail level configured by `/drive config` takes precedence over all of them.
+ * @param channel guild channel
+ * @returns rendering options, or undefined if the guild is not allowed
+ */
+export const getRenderingOptions = (
+	channel: GuildBasedChannel,
+): RenderingOptions | undefined => {
+	const settings = guildSettings.get(channel.guildId);
+	const config = getChannelConfig(channel);
+	if (!(settings && config)) {
+		return;
+	}
+	return Object.assign(
+		{},
+		settings.rendering,
+		// apply from the outermost to the innermost
+		...getChannelLineage(channel)
+			.reverse()
+			.map((id) => settings.channelRendering[id]),
+		detailRenderingOptions[config.detail],
+	);
+};
+
+/**
+ * Get the folders allowed by the roles which can view a channel.
+ * @param channel guild channel
+ * @param roles IDs of folders allowed per role
+ * @returns IDs of folders allowed for all roles which can view the channel
+ */
+const getAudienceFolderIds = (
+	channel: GuildBasedChannel,
+	roles: Record<string, string[]>,
+): string[] => {
+	if (Object.keys(roles).length === 0) {
+		return [];
+	}
+	// threads inherit permissions of their parents
+	const permissionChannel = channel.isThread() ? channel.parent : channel;
+	// members allowed individually might not have any of the roles
+	if (
+		!permissionChannel ||
+		permissionChannel.permissionOverwrites.cache.some(
+			({ type, allow }) =>
+				type === OverwriteType.Member &&
+				allow.has(PermissionFlagsBits.ViewChannel),
+		)
+	) {
+		return [];
+	}
+	const [folderIds = [], ...otherFolderIds] = channel.guild.roles.cache
+		.filter(
+			(role) =>
+				// administrators can view all channels regardless of the policy
+				!role.permissions.has(PermissionFlagsBits.Administrator) &&
+				permissionChannel
+					.permissionsFor(role)
+					.has(PermissionFlagsBits.ViewChannel),
+		)
+		.map(({ id }) => roles[id] ?? []);
+	return folderIds.filter((folderId) =>
+		otherFolderIds.every((ids) => ids.includes(folderId)),
+	);
+};
+
+/**
+ * Get the folders which files can be shown from in a channel.
+ * Folders of the channel take precedence over its parents, and folders allowed by roles are added to them.
+ * @param channel guild channel
+ * @returns IDs of allowed folders or shared drives, or undefined if files in any folder can be shown
+ */
+export const getAllowedFolderIds = (
+	channel: GuildBasedChannel,
+): string[] | undefined => {
+	const access = guildSettings.get(channel.guildId)?.access;
+	if (!access) {
+		return;
+	}
+	const channelFolderIds = getChannelLineage(channel)
+		.map((id) => access.channels[id])
+		.find((folderIds) => folderIds !== undefined);
+	return [
+		...new Set([
+			...(channelFolderIds ?? []),
+			...getAudienceFolderIds(channel, access.roles),
+		]),
+	];
+};
@@ -0,0 +1,133 @@
+/**
+ * Kind of a Google Drive link, which depends on the action in the URL.
+ */
+export type DriveLinkKind = "edit" | "view" | "published" | "download";
+
+/**
+ * Google Drive link found in a string.
+ */
+export type DriveLink = {
+	/**
+	 * URL as it appears in the string.
+	 */
+	url: string;
+	fileId: string;
+	/**
+	 * Resource key required to access files shared by links before the 2021 security update.
+	 * ref: https://support.google.com/drive/answer/10729743
+	 */
+	resourceKey?: string;
+	kind: DriveLinkKind;
+};
+
+// ref: https://github.com/spamscanner/url-regex-safe/blob/6c1e2c3b5557709633a2cc971d599469ea395061/src/index.js#L80
+const urlRegex =
+	/https?:\/\/(?:drive|docs|drive\.usercontent)\.google\.com\/[^\s'"<>\)]*[^\s'"<>\).?!,]/g;
+
+// file IDs are at least 25 characters long
+// ref: https://stackoverflow.com/questions/16840038/easiest-way-to-get-file-id-from-url-on-google-apps-script
+const fileIdRegex = /^[-\w]{25,}$/;
+
+// paths whose `id` query parameter is the file ID, e.g. `/open?id=<id>`
+const idQueryPaths = ["open", "uc", "download", "folderview", "thumbnail"];
+// actions in the path, e.g. `/d/<id>/preview`
+const publishedActions = ["pub", "pubhtml"];
+const downloadActions = ["export"];
+const viewActions = ["view", "preview", "viewform", "present", "htmlview"];
+
+/**
+ * Find the file ID in the path segments of a Google Drive URL.
+ * @param segments path segments of the URL
+ * @returns file ID, or undefined if not found or the URL has an ID of a published file instead
+ */
+const findFileIdInPath = (segments: string[]): string | undefined => {
+	for (const [i, segment] of segments.entries()) {
+		// e.g. `/file/d/<id>`, `/document/u/0/d/<id>`, or `/drive/u/0/folders/<id>`
+		if (segment !== "d" && segment !== "folders") {
+			continue;
+		}
+		const next = segments[i + 1];
+		// published files have IDs different from file IDs, e.g. `/document/d/e/2PACX-<id>/pub`,
+		// which cannot be resolved to the files by Google Drive API
+		if (segment === "d" && next === "e") {
+			return;
+		}
+		return next;
+	}
+	return;
+};
+
+/**
+ * Determine the kind of a Google Drive link.
+ * @param url parsed URL
+ * @param segments path segments of the URL
+ * @returns kind of the link
+ */
+const determineKind = (url: URL, segments: string[]): DriveLinkKind => {
+	const action = segments.at(-1) ?? "";
+	if (publishedActions.includes(action)) {
+		return "published";
+	}
+	if (
+		url.hostname === "drive.usercontent.google.com" ||
+		url.searchParams.get("export") === "download" ||
+		// e.g. `/d/<id>/export?format=pdf` or `/d/<id>/export/pdf`
+		segments.some((segment) => downloadActions.includes(segment))
+	) {
+		return "download";
+	}
+	// Google Workspace files are opened in the editor by default
+	if (
+		action === "edit" ||
+		(url.hostname === "docs.google.com" && !viewActions.includes(action))
+	) {
+		return "edit";
+	}
+	return "view";
+};
+
+/**
+ * Check if a string looks like the ID of a file or folder.
+ * @param value string to check
+ * @returns true if the string can be a file ID
+ */
+export const isFileId = (value: string): boolean => fileIdRegex.test(value);
+
+/**
+ * Parse a Google Drive URL.
+ * @param urlString URL to parse
+ * @returns parsed link, or undefined if the URL does not point to a file or folder
+ */
+export const parseDriveUrl = (urlString: string): DriveLink | undefined => {
+	let url: URL;
+	try {
+		url = new URL(urlString);
+	} catch {
+		return;
+	}
+
+	const segments = url.pathname.split("/").filter((segment) => segment);
+	const idQuery = idQueryPaths.includes(segments.at(-1) ?? "")
+		? url.searchParams.get("id")
+		: null;
+	const fileId = findFileIdInPath(segments) ?? idQuery;
+	if (!(fileId && isFileId(fileId))) {
+		return;
+	}
+
+	const resourceKey = url.searchParams.get("resourcekey");
+	return {
+		url: urlString,
+		fileId,
+		...(resourceKey ? { resourceKey } : {}),
+		kind: determineKind(url, segments),
+	};
+};
+
+/**
+ * Extract Google Drive links from a string.
+ * @param content string to extract links from
+ * @returns array of parsed links, in the order of appearance
+ */
+export const extractDriveLinks = (content: string): DriveLink[] =>
+	[...content.matchAll(urlRegex)].flatMap(([url]) => parseDriveUrl(url) ?? []);
@@ -1,4 +1,3 @@
-import { env } from "bun";
 import { consola } from "consola";
 import {
 	ActivityType,
@@ -10,23 +9,48 @@ import {
 	type PartialMessage,
 	Partials,
 } from "discord.js";
-import { checkBotStatus, checkEnvs } from "./checks";
+import { checkBotStatus } from "./checks";
 import { commandsListener, registerCommands } from "./commands";
+import { config } from "./config";
 import { deleteEmbedsMessage, updateEmbedsMessage } from "./embeds";
-import { driveClient } from "./gdrive";
+import { startFolderWatcher } from "./folderWatcher";
+import {
+	describeDriveAccount,
+	driveClient,
+	driveScope,
+	findExcessScopes,
+	withDriveRetry,
+} from "./gdrive";
+import { guildSettings, isEnabledChannel, isThumbnailEnabled } from "./guilds";
+import { notifyInaccessibleLinks } from "./notices";
+import { advanceCheckpoint, reconcileMissedEvents } from "./reconcile";
+import { startHttpServer } from "./server";
+import { startChangesWatcher } from "./watcher";
 
 consola.start("gdrive4d is starting...");
 
-checkEnvs();
-
 consola.start("Starting Google Drive API client...");
-consola.info(`Service account email: ${env.GOOGLE_SERVICE_ACCOUNT_EMAIL}`);
+consola.info(`Google account: ${describeDriveAccount()}`);
+consola.info(`Google Drive scope: ${driveScope}`);
+if (isThumbnailEnabled && !config.google.contentAccess) {
+	consola.warn(
+		"Thumbnails are enabled in guild settings, but not shown since GOOGLE_CONTENT_ACCESS (google.contentAccess) is not enabled.",
+	);
+}
 // test if the client is working, fail fast
-const files = await driveClient.files.list();
-// exit if the service account has access to no files
+const files = await withDriveRetry(() => driveClient.files.list());
+// exit if the account has access to no files
 if (files.data.files?.length === 0) {
 	consola.warn(
-		"No files are shared to the service account in Google Drive. Share some files to the service account and try again.",
+		"No files are accessible by the Google account. Share some files to the account and try again.",
+	);
+}
+const excessScopes = await findExcessScopes();
+if (excessScopes.length > 0) {
+	consola.warn(
+		`The Google account grants more access than needed: ${excessScopes.join(
+			", ",
+		)}. Authorize only the scope in README.md to limit the access of the bot.`,
 	);
 }
 consola.ready("Google Drive API client is now ready!");
@@ -43,19 +67,38 @@ const discordClient = new Client({
 	partials: [Partials.Message],
 });
 
+// start before login to report liveness while connecting
+startHttpServer(discordClient);
+
 discordClient.once(Events.ClientReady, async (client) => {
 	consola.ready("Discord bot is now ready!");
 	consola.info(`Logged in as ${client.user.tag}.`);
 
 	client.user.setActivity("Google Drive", { type: ActivityType.Watching });
 
-	await checkBotStatus(client);
+	const readyGuildIds = await checkBotStatus(client);
+
+	await registerCommands(client, readyGuildIds);
 
-	await registerCommands(client);
+	// run in background since they poll forever
+	startChangesWatcher(client);
+	startFolderWatcher(client);
+
+	// run in background since it might take a while after a long downtime
+	reconcileMissedEvents(client);
 
 	consola.ready("gdrive4d is successfully started!");
 });
 
+// missed events are replayed when a session is resumed, but not when a new session is started after reconnecting
+discordClient.on(Events.ShardReady, () => {
+	// the first session is reconciled in the ready event
+	if (!discordClient.isReady()) {
+		return;
+	}
+	reconcileMissedEvents(discordClient);
+});
+
 discordClient.on(Events.InteractionCreate, commandsListener);
 
 const isValidRequest = (message: Message | PartialMessage): boolean => {
@@ -64,8 +107,8 @@ const isValidRequest = (message: Message | PartialMessage): boolean => {
 	if (message.author?.id === message.client.user.id) {
 		return false;
 	}
-	// ignore commands from unauthorized guilds or DMs
-	if (message.guildId !== env.DISCORD_GUILD_ID) {
+	// ignore messages from unauthorized guilds or DMs
+	if (!(message.guildId && guildSettings.has(message.guildId))) {
 		consola.warn(
 			`Message event was sent in ${
 				message.inGuild() ? "an unauthorized guild" : "DM"
@@ -73,7 +116,8 @@ const isValidRequest = (message: Message | PartialMessage): boolean => {
 		);
 		return false;
 	}
-	return true;
+	// ignore messages in channels not enabled in the guild settings
+	return isEnabledChannel(message.channel);
 };
 
 discordClient.on(Events.MessageCreate, async (message) => {
@@ -81,6 +125,8 @@ discordClient.on(Events.MessageCreate, async (message) => {
 		return;
 	}
 	await updateEmbedsMessage(message, { isNewlyCreated: true });
+	await notifyInaccessibleLinks(message);
+	advanceCheckpoint(message.id);
 });
 
 discordClient.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
@@ -99,6 +145,7 @@ discordClient.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
 				oldMessage.partial || oldMessage.flags.has(MessageFlags.SuppressEmbeds)
 			) && fullNewMessage.flags.has(MessageFlags.SuppressEmbeds),
 	});
+	await notifyInaccessibleLinks(fullNewMessage);
 });
 
 discordClient.on(Events.MessageDelete, async (message) => {
@@ -118,4 +165,4 @@ discordClient.on(Events.MessageBulkDelete, async (messages) => {
 	}
 });
 
-discordClient.login(env.DISCORD_BOT_TOKEN);
+discordClient.login(config.discord.token);
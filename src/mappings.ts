@@ -0,0 +1,191 @@
+import { database } from "./database";
+
+/**
+ * Mapping of a source message to its embeds message.
+ */
+export type EmbedsMapping = {
+	sourceId: string;
+	channelId: string;
+	embedsMessageId: string;
+	/**
+	 * IDs of files in the embeds, in the order of the embeds.
+	 */
+	fileIds: string[];
+};
+
+/**
+ * How the embeds of a source message are displayed, changed by the buttons on its embeds message.
+ * `collapsed` shows the links in a single line, and `removed` stops creating embeds.
+ */
+export type EmbedsDisplay = "expanded" | "collapsed" | "removed";
+
+database.exec(`
+	CREATE TABLE IF NOT EXISTS embeds_messages (
+		source_id TEXT PRIMARY KEY,
+		channel_id TEXT NOT NULL,
+		embeds_message_id TEXT NOT NULL UNIQUE
+	);
+	CREATE TABLE IF NOT EXISTS embeds_files (
+		source_id TEXT NOT NULL REFERENCES embeds_messages (source_id) ON DELETE CASCADE,
+		position INTEGER NOT NULL,
+		file_id TEXT NOT NULL,
+		PRIMARY KEY (source_id, position)
+	);
+	CREATE INDEX IF NOT EXISTS embeds_files_file_id ON embeds_files (file_id);
+	CREATE TABLE IF NOT EXISTS embeds_displays (
+		source_id TEXT PRIMARY KEY,
+		display TEXT NOT NULL
+	);
+`);
+
+const selectMessageQuery = database.query<
+	{ channelId: string; embedsMessageId: string },
+	{ sourceId: string }
+>(
+	"SELECT channel_id AS channelId, embeds_message_id AS embedsMessageId FROM embeds_messages WHERE source_id = $sourceId",
+);
+const selectFilesQuery = database.query<
+	{ fileId: string },
+	{ sourceId: string }
+>(
+	"SELECT file_id AS fileId FROM embeds_files WHERE source_id = $sourceId ORDER BY position",
+);
+const selectByFileQuery = database.query<
+	{ sourceId: string; channelId: string },
+	{ fileId: string }
+>(
+	"SELECT DISTINCT m.source_id AS sourceId, m.channel_id AS channelId FROM embeds_messages m JOIN embeds_files f ON m.source_id = f.source_id WHERE f.file_id = $fileId",
+);
+const selectByChannelQuery = database.query<
+	{ sourceId: string; embedsMessageId: string },
+	{ channelId: string; afterId: string; beforeId: string; limit: number }
+>(
+	// snowflakes fit in 64-bit integers of SQLite, and must be compared as numbers
+	"SELECT source_id AS sourceId, embeds_message_id AS embedsMessageId FROM embeds_messages WHERE channel_id = $channelId AND CAST(source_id AS INTEGER) > CAST($afterId AS INTEGER) AND CAST(source_id AS INTEGER) <= CAST($beforeId AS INTEGER) ORDER BY CAST(source_id AS INTEGER) DESC LIMIT $limit",
+);
+const insertMessageQuery = database.query<
+	never,
+	{ sourceId: string; channelId: string; embedsMessageId: string }
+>(
+	"INSERT INTO embeds_messages (source_id, channel_id, embeds_message_id) VALUES ($sourceId, $channelId, $embedsMessageId)",
+);
+const insertFileQuery = database.query<
+	never,
+	{ sourceId: string; position: number; fileId: string }
+>(
+	"INSERT INTO embeds_files (source_id, position, file_id) VALUES ($sourceId, $position, $fileId)",
+);
+const deleteMessageQuery = database.query<never, { sourceId: string }>(
+	"DELETE FROM embeds_messages WHERE source_id = $sourceId",
+);
+const selectDisplayQuery = database.query<
+	{ display: EmbedsDisplay },
+	{ sourceId: string }
+>("SELECT display FROM embeds_displays WHERE source_id = $sourceId");
+const upsertDisplayQuery = database.query<
+	never,
+	{ sourceId: string; display: EmbedsDisplay }
+>(
+	"INSERT INTO embeds_displays (source_id, display) VALUES ($sourceId, $display) ON CONFLICT (source_id) DO UPDATE SET display = excluded.display",
+);
+const deleteDisplayQuery = database.query<never, { sourceId: string }>(
+	"DELETE FROM embeds_displays WHERE source_id = $sourceId",
+);
+
+/**
+ * Find the mapping of a source message.
+ * @param sourceId ID of the source message
+ * @returns mapping, or undefined if not recorded
+ */
+export const findEmbedsMapping = (
+	sourceId: string,
+): EmbedsMapping | undefined => {
+	const message = selectMessageQuery.get({ sourceId });
+	if (!message) {
+		return;
+	}
+	return {
+		sourceId,
+		...message,
+		fileIds: selectFilesQuery.all({ sourceId }).map(({ fileId }) => fileId),
+	};
+};
+
+/**
+ * Find source messages whose embeds include a file.
+ * @param fileId ID of the file
+ * @returns IDs of the source messages and their channels
+ */
+export const findSourcesByFileId = (
+	fileId: string,
+): { sourceId: string; channelId: string }[] =>
+	selectByFileQuery.all({ fileId });
+
+/**
+ * Find the latest source messages with embeds in a channel, posted in a range of snowflakes.
+ * @param channelId ID of the channel
+ * @param afterId snowflake which the source messages are posted after
+ * @param beforeId snowflake which the source messages are posted up to
+ * @param limit maximum number of source messages
+ * @returns IDs of the source messages and their embeds messages, from the newest to the oldest
+ */
+export const findSourcesInChannel = (
+	channelId: string,
+	afterId: string,
+	beforeId: string,
+	limit: number,
+): { sourceId: string; embedsMessageId: string }[] =>
+	selectByChannelQuery.all({ channelId, afterId, beforeId, limit });
+
+/**
+ * Record the mapping of a source message, replacing the existing one.
+ * @param mapping mapping to record
+ */
+export const saveEmbedsMapping = database.transaction(
+	({ sourceId, channelId, embedsMessageId, fileIds }: EmbedsMapping) => {
+		// deleting cascades to the files
+		deleteMessageQuery.run({ sourceId });
+		insertMessageQuery.run({ sourceId, channelId, embedsMessageId });
+		for (const [position, fileId] of fileIds.entries()) {
+			insertFileQuery.run({ sourceId, position, fileId });
+		}
+	},
+);
+
+/**
+ * Delete the mapping of a source message.
+ * @param sourceId ID of the source message
+ */
+export const deleteEmbedsMapping = (sourceId: string) => {
+	deleteMessageQuery.run({ sourceId });
+};
+
+/**
+ * Get how the embeds of a source message are displayed.
+ * @param sourceId ID of the source message
+ * @returns display of the embeds, `expanded` if not recorded
+ */
+export const getEmbedsDisplay = (sourceId: string): EmbedsDisplay =>
+	selectDisplayQuery.get({ sourceId })?.display ?? "expanded";
+
+/**
+ * Record how the embeds of a source message are displayed.
+ * @param sourceId ID of the source message
+ * @param display display of the embeds
+ */
+export const saveEmbedsDisplay = (sourceId: string, display: EmbedsDisplay) => {
+	// do not keep rows for the default
+	if (display === "expanded") {
+		deleteDisplayQuery.run({ sourceId });
+		return;
+	}
+	upsertDisplayQuery.run({ sourceId, display });
+};
+
+/**
+ * Delete the recorded display of a source message.
+ * @param sourceId ID of the source message
+ */
+export const deleteEmbedsDisplay = (sourceId: string) => {
+	deleteDisplayQuery.run({ sourceId });
+};
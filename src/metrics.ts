@@ -0,0 +1,212 @@
+/**
+ * Labels of a metric sample, e.g. `{ action: "created" }`.
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Metric which can be rendered in the Prometheus text format.
+ */
+type Metric = {
+	name: string;
+	help: string;
+	type: "counter" | "histogram";
+	render: () => string[];
+};
+
+/**
+ * Counter which only increases.
+ */
+type Counter = {
+	/**
+	 * Increase the counter.
+	 * @param labels labels of the sample
+	 * @param amount amount to increase
+	 */
+	inc: (labels?: Labels, amount?: number) => void;
+};
+
+/**
+ * Histogram to observe distributions of values, such as latencies.
+ */
+type Histogram = {
+	/**
+	 * Observe a value.
+	 * @param value value to observe
+	 * @param labels labels of the sample
+	 */
+	observe: (value: number, labels?: Labels) => void;
+};
+
+// prefix of all metric names to avoid conflicts with other exporters
+const metricPrefix = "gdrive4d_";
+// default buckets of histograms, in seconds
+const defaultBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const metrics: Metric[] = [];
+
+/**
+ * Format labels of a sample.
+ * @param labels labels of the sample
+ * @returns labels in the Prometheus text format, or an empty string if no labels
+ */
+// ref: https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format
+const formatLabels = (labels: Labels): string => {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) {
+		return "";
+	}
+	return `{${entries
+		.map(
+			([key, value]) =>
+				`${key}="${value
+					.replace(/\\/g, "\\\\")
+					.replace(/"/g, '\\"')
+					.replace(/\n/g, "\\n")}"`,
+		)
+		.join(",")}}`;
+};
+
+/**
+ * Create a key to identify a combination of labels.
+ * @param labels labels of a sample
+ * @returns key which is the same for the same labels in any order
+ */
+const getLabelsKey = (labels: Labels): string =>
+	JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Create a counter which only increases.
+ * @param name name of the counter without the prefix
+ * @param help description of the counter
+ * @returns counter
+ */
+const createCounter = (name: string, help: string): Counter => {
+	const values = new Map<string, { labels: Labels; value: number }>();
+	metrics.push({
+		name: `${metricPrefix}${name}`,
+		help,
+		type: "counter",
+		render: () =>
+			[...values.values()].map(
+				({ labels, value }) =>
+					`${metricPrefix}${name}${formatLabels(labels)} ${value}`,
+			),
+	});
+	return {
+		inc: (labels: Labels = {}, amount = 1) => {
+			const key = getLabelsKey(labels);
+			const current = values.get(key);
+			values.set(key, { labels, value: (current?.value ?? 0) + amount });
+		},
+	};
+};
+
+/**
+ * Create a histogram to observe distributions of values, such as latencies.
+ * @param name name of the histogram without the prefix
+ * @param help description of the histogram
+ * @param buckets upper bounds of buckets in ascending order
+ * @returns histogram
+ */
+const createHistogram = (
+	name: string,
+	help: string,
+	buckets = defaultBuckets,
+): Histogram => {
+	const values = new Map<
+		string,
+		{ labels: Labels; counts: number[]; sum: number; count: number }
+	>();
+	metrics.push({
+		name: `${metricPrefix}${name}`,
+		help,
+		type: "histogram",
+		render: () =>
+			[...values.values()].flatMap(({ labels, counts, sum, count }) => [
+				...buckets.map(
+					(bucket, i) =>
+						`${metricPrefix}${name}_bucket${formatLabels({
+							...labels,
+							le: String(bucket),
+						})} ${counts[i]}`,
+				),
+				`${metricPrefix}${name}_bucket${formatLabels({
+					...labels,
+					le: "+Inf",
+				})} ${count}`,
+				`${metricPrefix}${name}_sum${formatLabels(labels)} ${sum}`,
+				`${metricPrefix}${name}_count${formatLabels(labels)} ${count}`,
+			]),
+	});
+	return {
+		observe: (value: number, labels: Labels = {}) => {
+			const key = getLabelsKey(labels);
+			const current = values.get(key) ?? {
+				labels,
+				counts: buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			// buckets are cumulative
+			current.counts = current.counts.map((count, i) =>
+				value <= (buckets[i] ?? Number.POSITIVE_INFINITY) ? count + 1 : count,
+			);
+			current.sum += value;
+			current.count++;
+			values.set(key, current);
+		},
+	};
+};
+
+/**
+ * Render all metrics in the Prometheus text format.
+ * @returns metrics in the text format
+ */
+export const renderMetrics = (): string =>
+	`${metrics
+		.flatMap(({ name, help, type, render }) => [
+			`# HELP ${name} ${help}`,
+			`# TYPE ${name} ${type}`,
+			...render(),
+		])
+		.join("\n")}\n`;
+
+/**
+ * Number of embeds messages created, edited, or deleted.
+ */
+export const embedsMessagesCounter = createCounter(
+	"embeds_messages_total",
+	"Number of embeds messages by action.",
+);
+
+/**
+ * Number of requests to Google Drive API, including retries.
+ */
+export const driveRequestsCounter = createCounter(
+	"drive_requests_total",
+	"Number of requests to Google Drive API by result.",
+);
+
+/**
+ * Number of errors from Google Drive API.
+ */
+export const driveErrorsCounter = createCounter(
+	"drive_errors_total",
+	"Number of errors from Google Drive API by reason.",
+);
+
+/**
+ * Latencies of requests to Google Drive API.
+ */
+export const driveRequestDurationHistogram = createHistogram(
+	"drive_request_duration_seconds",
+	"Latencies of requests to Google Drive API in seconds.",
+);
+
+/**
+ * Number of lookups of cached file metadata.
+ */
+export const fileCacheCounter = createCounter(
+	"file_cache_lookups_total",
+	"Number of lookups of cached file metadata by result.",
+);
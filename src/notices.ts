@@ -0,0 +1,220 @@
+import {
+	ActionRowBuilder,
+	ButtonBuilder,
+	ButtonStyle,
+	ComponentType,
+	DiscordAPIError,
+	type Message,
+	type MessageCreateOptions,
+	PermissionFlagsBits,
+	RESTJSONErrorCodes,
+	inlineCode,
+	userMention,
+} from "discord.js";
+import type { ExecutableComponent } from "./commands";
+import { updateEmbedsMessage } from "./embeds";
+import { getDriveAccountEmail, getFile, invalidateFile } from "./gdrive";
+import { type DriveLink, extractDriveLinks } from "./links";
+import { createCustomId } from "./util/customId";
+
+const retryButtonPrefix = "retry";
+const dismissButtonPrefix = "dismiss";
+
+// do not notify the same user about the same file again within this period
+const noticeCooldown = 24 * 60 * 60 * 1000;
+const maxNoticeRecords = 10_000;
+
+// keyed by `${userId}:${fileId}`, and the values are times when the cooldowns expire
+const noticeRecords = new Map<string, number>();
+
+/**
+ * Find links to files which are not accessible by the bot.
+ * @param content content of a message
+ * @returns links to inaccessible files, without duplicate files
+ */
+const findInaccessibleLinks = async (content: string): Promise<DriveLink[]> => {
+	const links = [
+		...new Map(
+			extractDriveLinks(content).map((link) => [link.fileId, link]),
+		).values(),
+	];
+	const files = await Promise.all(
+		links.map(({ fileId, resourceKey }) => getFile(fileId, resourceKey)),
+	);
+	return links.filter((_, i) => !files[i]);
+};
+
+/**
+ * Record that a user is notified about a file, and check if the user has been notified recently.
+ * @param userId ID of the user
+ * @param fileId ID of the file
+ * @returns true if the user should be notified
+ */
+const recordNotice = (userId: string, fileId: string): boolean => {
+	const key = `${userId}:${fileId}`;
+	const expiresAt = noticeRecords.get(key);
+	if (expiresAt && expiresAt > Date.now()) {
+		return false;
+	}
+	if (noticeRecords.size >= maxNoticeRecords) {
+		// Map iterates in insertion order, so the first key is the oldest
+		const [oldestKey] = noticeRecords.keys();
+		noticeRecords.delete(oldestKey ?? "");
+	}
+	// delete first to move the key to the end
+	noticeRecords.delete(key);
+	noticeRecords.set(key, Date.now() + noticeCooldown);
+	return true;
+};
+
+/**
+ * Create a notice about inaccessible files.
+ * @param sourceMessage message with links to the files
+ * @param links links to inaccessible files
+ * @returns options of the notice message
+ */
+const createNoticeOptions = async (
+	sourceMessage: Message,
+	links: DriveLink[],
+): Promise<MessageCreateOptions> => {
+	const email = await getDriveAccountEmail();
+	return {
+		content: [
+			`${userMention(sourceMessage.author.id)} The bot cannot access ${
+				links.length > 1 ? "these files" : "this file"
+			} in your message:`,
+			...links.map(({ url }) => `- <${url}>`),
+			`Share ${links.length > 1 ? "them" : "it"} with ${
+				email ? inlineCode(email) : "the Google account of the bot"
+			} as a viewer, and press Retry.`,
+		].join("\n"),
+		components: [
+			new ActionRowBuilder<ButtonBuilder>().setComponents(
+				new ButtonBuilder()
+					.setCustomId(createCustomId(retryButtonPrefix, sourceMessage.id))
+					.setLabel("Retry")
+					.setStyle(ButtonStyle.Primary),
+				new ButtonBuilder()
+					.setCustomId(
+						createCustomId(dismissButtonPrefix, sourceMessage.author.id),
+					)
+					.setLabel("Dismiss")
+					.setStyle(ButtonStyle.Secondary),
+			),
+		],
+	};
+};
+
+/**
+ * Notify the author of a message if it links to files which are not accessible by the bot.
+ * The same author is not notified about the same file repeatedly.
+ * @param sourceMessage message sent or edited by the author
+ */
+export const notifyInaccessibleLinks = async (sourceMessage: Message) => {
+	if (sourceMessage.author.bot || !sourceMessage.channel.isSendable()) {
+		return;
+	}
+	const links = await findInaccessibleLinks(sourceMessage.content);
+	// list all inaccessible files if any of them is new to the author
+	const hasNewLink = links
+		.map(({ fileId }) => recordNotice(sourceMessage.author.id, fileId))
+		.includes(true);
+	if (!hasNewLink) {
+		return;
+	}
+
+	await sourceMessage.reply({
+		...(await createNoticeOptions(sourceMessage, links)),
+		// mention the author to make sure the notice is seen
+		allowedMentions: { users: [sourceMessage.author.id] },
+	});
+};
+
+/**
+ * Fetch the source message of a notice.
+ * @param notice notice message
+ * @param sourceId ID of the source message
+ * @returns source message, or undefined if deleted
+ */
+const fetchSourceMessage = async (
+	notice: Message,
+	sourceId: string,
+): Promise<Message | undefined> =>
+	await notice.channel.messages.fetch(sourceId).catch((error) => {
+		if (
+			error instanceof DiscordAPIError &&
+			error.code === RESTJSONErrorCodes.UnknownMessage
+		) {
+			return undefined;
+		}
+		throw error;
+	});
+
+/**
+ * Button to update the embeds of a message after its files are shared with the bot.
+ * The notice is deleted if all files are accessible.
+ */
+export const retryButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: retryButtonPrefix,
+	execute: async (interaction, [sourceId]) => {
+		if (!sourceId) {
+			throw new Error(`Invalid custom ID: ${interaction.customId}`);
+		}
+		await interaction.deferReply({ ephemeral: true });
+
+		const sourceMessage = await fetchSourceMessage(
+			interaction.message,
+			sourceId,
+		);
+		if (!sourceMessage) {
+			await interaction.message.delete();
+			await interaction.editReply("The message has been deleted.");
+			return;
+		}
+
+		// fetch the latest metadata instead of the cached one, since the files might be just shared
+		for (const { fileId } of extractDriveLinks(sourceMessage.content)) {
+			invalidateFile(fileId);
+		}
+		await updateEmbedsMessage(sourceMessage);
+
+		const links = await findInaccessibleLinks(sourceMessage.content);
+		if (links.length === 0) {
+			await interaction.message.delete();
+			await interaction.editReply(
+				"All files are accessible now. The embeds are updated.",
+			);
+			return;
+		}
+		await interaction.editReply(
+			[
+				"These files are still not accessible:",
+				...links.map(({ url }) => `- <${url}>`),
+				"It might take a few minutes until sharing settings are applied.",
+			].join("\n"),
+		);
+	},
+};
+
+/**
+ * Button to delete a notice, which can be pressed by the author or moderators.
+ */
+export const dismissButton: ExecutableComponent = {
+	type: ComponentType.Button,
+	prefix: dismissButtonPrefix,
+	execute: async (interaction, [authorId]) => {
+		if (
+			interaction.user.id !== authorId &&
+			!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)
+		) {
+			await interaction.reply({
+				content: "Only the author of the message can dismiss this notice.",
+				ephemeral: true,
+			});
+			return;
+		}
+		await interaction.deferUpdate();
+		await interaction.message.delete();
+	},
+};
@@ -0,0 +1,364 @@
+import { sleep } from "bun";
+import { consola } from "consola";
+import {
+	type Channel,
+	type Client,
+	DiscordAPIError,
+	type GuildTextBasedChannel,
+	type Message,
+	PermissionFlagsBits,
+	RESTJSONErrorCodes,
+	SnowflakeUtil,
+} from "discord.js";
+import { fetchMessagesAfter } from "./backfill";
+import { config } from "./config";
+import { getState, setState } from "./database";
+import {
+	auditDeletedEmbeds,
+	decodeSourceId,
+	updateEmbedsMessage,
+} from "./embeds";
+import { isEnabledChannel } from "./guilds";
+import { extractDriveLinks } from "./links";
+import {
+	deleteEmbedsDisplay,
+	deleteEmbedsMapping,
+	findEmbedsMapping,
+	findSourcesInChannel,
+} from "./mappings";
+import { embedsMessagesCounter } from "./metrics";
+
+const checkpointStateKey = "reconcile.checkpoint";
+// scan at most this number of messages per channel to bound requests after a long downtime
+const maxScannedMessages = 500;
+// check at most this number of source messages posted before the checkpoint per channel
+const maxCheckedSources = 100;
+// embeds of older source messages are not refreshed by the watcher either, so they are not checked on every reconnection
+const maxCheckedSourceAge = config.watch.maxAgeDays * 86_400_000;
+// wait between updates of embeds to leave room for other requests under the rate limit
+const updateInterval = 1000;
+
+/**
+ * Result of reconciling a channel.
+ */
+type ReconcileResult = {
+	scanned: number;
+	/**
+	 * Number of source messages posted before the checkpoint whose embeds are checked.
+	 */
+	checked: number;
+	updated: number;
+	deleted: number;
+};
+
+// reconciliations must not overlap, and live events must not move the checkpoint past unscanned messages
+let isReconciling = false;
+
+/**
+ * Move the checkpoint forward to a message or time which the bot has seen.
+ * Messages after the checkpoint are scanned on the next reconciliation.
+ * @param snowflake ID of the message or snowflake of the time
+ */
+export const advanceCheckpoint = (snowflake: string) => {
+	if (isReconciling) {
+		return;
+	}
+	const checkpoint = getState(checkpointStateKey);
+	if (!checkpoint || BigInt(snowflake) > BigInt(checkpoint)) {
+		setState(checkpointStateKey, snowflake);
+	}
+};
+
+/**
+ * Get the oldest snowflake of source messages posted before the checkpoint to check.
+ * @returns snowflake of the time
+ */
+const getOldestCheckedSourceId = (): string =>
+	SnowflakeUtil.generate({
+		timestamp: Date.now() - maxCheckedSourceAge,
+	}).toString();
+
+/**
+ * Check if a channel might have messages to reconcile.
+ * @param channel channel in the cache
+ * @param checkpoint snowflake to scan messages after
+ * @param oldestSourceId snowflake after which source messages before the checkpoint are checked
+ * @returns true if the bot is enabled in the channel and it has messages after the checkpoint
+ */
+const isReconcilable = (
+	channel: Channel,
+	checkpoint: string,
+	oldestSourceId: string,
+): channel is GuildTextBasedChannel =>
+	channel.isTextBased() &&
+	!channel.isDMBased() &&
+	isEnabledChannel(channel) &&
+	// skip channels without new messages nor embeds to avoid fetching all channels
+	(BigInt(channel.lastMessageId ?? 0) > BigInt(checkpoint) ||
+		findSourcesInChannel(channel.id, oldestSourceId, checkpoint, 1).length >
+			0) &&
+	(channel
+		.permissionsFor(channel.client.user)
+		?.has([
+			PermissionFlagsBits.ViewChannel,
+			PermissionFlagsBits.ReadMessageHistory,
+		]) ??
+		false);
+
+/**
+ * Fetch a message, or undefined if deleted.
+ * @param channel channel of the message
+ * @param messageId ID of the message
+ * @returns message, or undefined if deleted
+ */
+const fetchMessageIfExists = async (
+	channel: GuildTextBasedChannel,
+	messageId: string,
+): Promise<Message | undefined> =>
+	await channel.messages.fetch(messageId).catch((error) => {
+		if (
+			error instanceof DiscordAPIError &&
+			error.code === RESTJSONErrorCodes.UnknownMessage
+		) {
+			return undefined;
+		}
+		throw error;
+	});
+
+/**
+ * Delete the embeds message of a deleted source message, and forget the source message.
+ * @param channel channel of the messages
+ * @param sourceId ID of the deleted source message
+ * @param embedsMessage embeds message, or undefined if already deleted
+ * @returns `deleted` if the embeds message is deleted, or undefined if only the records are deleted
+ */
+const deleteOrphanedEmbeds = async (
+	channel: GuildTextBasedChannel,
+	sourceId: string,
+	embedsMessage: Message | undefined,
+): Promise<"deleted" | undefined> => {
+	deleteEmbedsMapping(sourceId);
+	deleteEmbedsDisplay(sourceId);
+	if (!embedsMessage) {
+		return;
+	}
+	await embedsMessage.delete();
+	embedsMessagesCounter.inc({ action: "deleted" });
+	await auditDeletedEmbeds({
+		id: sourceId,
+		guildId: channel.guildId,
+		channelId: channel.id,
+		client: embedsMessage.client,
+		// the author of the deleted message is unknown
+		author: null,
+	});
+	return "deleted";
+};
+
+/**
+ * Reconcile an embeds message whose source message is not in the scanned messages.
+ * The embeds message is deleted if its source message has been deleted, otherwise the embeds are updated.
+ * @param embedsMessage message sent by the bot
+ * @param channel channel of the message
+ * @returns action taken, or undefined if nothing is done
+ */
+const reconcileEmbedsMessage = async (
+	embedsMessage: Message,
+	channel: GuildTextBasedChannel,
+): Promise<"updated" | "deleted" | undefined> => {
+	const sourceId = decodeSourceId(embedsMessage);
+	// ignore other messages of the bot, e.g. notices
+	if (!sourceId) {
+		return;
+	}
+	const sourceMessage = await fetchMessageIfExists(channel, sourceId);
+	if (sourceMessage) {
+		// the source message was posted before the checkpoint and might be edited after it
+		await updateEmbedsMessage(sourceMessage);
+		return "updated";
+	}
+	return await deleteOrphanedEmbeds(channel, sourceId, embedsMessage);
+};
+
+/**
+ * Reconcile a source message posted before the checkpoint, whose embeds message is recorded.
+ * Such source messages are not scanned, but might be edited or deleted after the checkpoint.
+ * @param channel channel of the messages
+ * @param source IDs of the source message and its embeds message
+ * @param source.sourceId ID of the source message
+ * @param source.embedsMessageId ID of the embeds message
+ * @param checkpoint snowflake which the source message is posted before
+ * @returns action taken, or undefined if nothing is done
+ */
+const reconcileEarlierSource = async (
+	channel: GuildTextBasedChannel,
+	{ sourceId, embedsMessageId }: { sourceId: string; embedsMessageId: string },
+	checkpoint: string,
+): Promise<"updated" | "deleted" | undefined> => {
+	const sourceMessage = await fetchMessageIfExists(channel, sourceId);
+	if (!sourceMessage) {
+		return await deleteOrphanedEmbeds(
+			channel,
+			sourceId,
+			await fetchMessageIfExists(channel, embedsMessageId),
+		);
+	}
+	if (
+		(sourceMessage.editedTimestamp ?? 0) <=
+		SnowflakeUtil.timestampFrom(checkpoint)
+	) {
+		return;
+	}
+	await updateEmbedsMessage(sourceMessage);
+	return "updated";
+};
+
+/**
+ * Reconcile a message scanned in the history.
+ * @param message scanned message
+ * @param channel channel of the message
+ * @param sourceIds IDs of scanned source messages, to which the message is added if it is a source message
+ * @returns action taken, or undefined if nothing is done
+ */
+const reconcileMessage = async (
+	message: Message,
+	channel: GuildTextBasedChannel,
+	sourceIds: Set<string>,
+): Promise<"updated" | "deleted" | undefined> => {
+	if (message.author.id === message.client.user.id) {
+		// source messages are posted before their embeds messages, so they are already scanned if in range
+		return sourceIds.has(decodeSourceId(message))
+			? undefined
+			: await reconcileEmbedsMessage(message, channel);
+	}
+	sourceIds.add(message.id);
+	// include messages whose links are removed after their embeds are created
+	if (
+		extractDriveLinks(message.content).length > 0 ||
+		findEmbedsMapping(message.id)
+	) {
+		await updateEmbedsMessage(message);
+		return "updated";
+	}
+	return;
+};
+
+/**
+ * Check source messages with embeds before the checkpoint, scan messages in a channel after the checkpoint, and reconcile their embeds messages.
+ * Messages whose embeds are up to date are skipped by `updateEmbedsMessage`, so processing them again is safe.
+ * @param channel channel to reconcile
+ * @param checkpoint snowflake to scan messages after
+ * @param oldestSourceId snowflake after which source messages before the checkpoint are checked
+ * @returns result of the reconciliation
+ */
+const reconcileChannel = async (
+	channel: GuildTextBasedChannel,
+	checkpoint: string,
+	oldestSourceId: string,
+): Promise<ReconcileResult> => {
+	const result: ReconcileResult = {
+		scanned: 0,
+		checked: 0,
+		updated: 0,
+		deleted: 0,
+	};
+	const sourceIds = new Set<string>();
+	for (const source of findSourcesInChannel(
+		channel.id,
+		oldestSourceId,
+		checkpoint,
+		maxCheckedSources,
+	)) {
+		result.checked++;
+		// skip their embeds messages in the scan, which are reconciled here
+		sourceIds.add(source.sourceId);
+		const action = await reconcileEarlierSource(channel, source, checkpoint);
+		if (action) {
+			result[action]++;
+			await sleep(updateInterval);
+		}
+	}
+
+	let cursor = checkpoint;
+
+	while (result.scanned < maxScannedMessages) {
+		const messages = await fetchMessagesAfter(channel, cursor);
+		if (messages.length === 0) {
+			break;
+		}
+		for (const message of messages) {
+			result.scanned++;
+			const action = await reconcileMessage(message, channel, sourceIds);
+			if (action) {
+				result[action]++;
+				await sleep(updateInterval);
+			}
+			cursor = message.id;
+		}
+	}
+	if (BigInt(channel.lastMessageId ?? 0) > BigInt(cursor)) {
+		consola.warn(
+			`Stopped reconciling ${
+				channel.id
+			} after ${maxScannedMessages} messages. Messages after ${new Date(
+				SnowflakeUtil.timestampFrom(cursor),
+			).toISOString()} are not reconciled.`,
+		);
+	}
+	return result;
+};
+
+/**
+ * Catch up on messages posted, edited, or deleted while the bot was disconnected.
+ * Scans messages after the checkpoint in enabled channels, creates or updates their embeds,
+ * and deletes embeds messages whose source messages have been deleted.
+ * Source messages with embeds posted before the checkpoint, within the max age of the watcher, are checked for edits and deletions too.
+ * The first run only records the checkpoint.
+ * @param client client after ready event
+ */
+export const reconcileMissedEvents = async (client: Client<true>) => {
+	if (isReconciling) {
+		return;
+	}
+	const checkpoint = getState(checkpointStateKey);
+	const startedAt = SnowflakeUtil.generate().toString();
+	if (!checkpoint) {
+		advanceCheckpoint(startedAt);
+		return;
+	}
+
+	isReconciling = true;
+	try {
+		const oldestSourceId = getOldestCheckedSourceId();
+		const channels = client.channels.cache.filter(
+			(channel): channel is GuildTextBasedChannel =>
+				isReconcilable(channel, checkpoint, oldestSourceId),
+		);
+		consola.start(
+			`Reconciling ${channels.size} channels since ${new Date(
+				SnowflakeUtil.timestampFrom(checkpoint),
+			).toISOString()}...`,
+		);
+		// do not parallelize to avoid rate limit
+		for (const channel of channels.values()) {
+			try {
+				const { scanned, checked, updated, deleted } = await reconcileChannel(
+					channel,
+					checkpoint,
+					oldestSourceId,
+				);
+				consola.info(
+					`Reconciled ${channel.id}: scanned ${scanned} messages, checked ${checked} earlier messages, updated ${updated} messages, and deleted ${deleted} embeds messages.`,
+				);
+			} catch (error) {
+				consola.error(`Failed to reconcile ${channel.id}.`);
+				// do not use consola#error to throw Error since it cannot handle line numbers correctly
+				console.error(error);
+			}
+		}
+		consola.success("Reconciliation is done.");
+	} finally {
+		isReconciling = false;
+	}
+	advanceCheckpoint(startedAt);
+};
@@ -0,0 +1,260 @@
+import type { drive_v3 } from "@googleapis/drive";
+import {
+	type APIEmbed,
+	ActionRowBuilder,
+	ApplicationCommandType,
+	ComponentType,
+	ContextMenuCommandBuilder,
+	EmbedBuilder,
+	type GuildTextBasedChannel,
+	StringSelectMenuBuilder,
+	time,
+} from "discord.js";
+import { isAllowedInChannel } from "./access";
+import type { ExecutableCommand, ExecutableComponent } from "./commands";
+import { type EmbedFile, resolveShortcut } from "./embeds";
+import { getFileType } from "./fileTypes";
+import {
+	folderMimeType,
+	getFile,
+	listRecentRevisions,
+	shortcutMimeType,
+} from "./gdrive";
+import { extractDriveLinks } from "./links";
+import { createCustomId } from "./util/customId";
+
+const revisionsSelectMenuPrefix = "revisions";
+
+// number of revisions shown per file
+const maxRevisions = 10;
+// a select menu can contain up to 25 options, and their labels are limited to 100 characters
+// ref: https://discord.com/developers/docs/interactions/message-components#select-menu-object
+const maxSelectOptions = 25;
+const maxOptionLabelLength = 100;
+
+/**
+ * Create a line describing a revision.
+ * @param revision metadata of the revision
+ * @returns line in markdown
+ */
+const createRevisionLine = ({
+	modifiedTime,
+	lastModifyingUser,
+	keepForever,
+}: drive_v3.Schema$Revision): string => {
+	const date = modifiedTime ? new Date(modifiedTime) : undefined;
+	const modified = date
+		? `${time(date, "f")} (${time(date, "R")})`
+		: "Unknown time";
+	const user = lastModifyingUser?.displayName ?? "unknown user";
+	// only revisions of binary files can be kept forever
+	const pinned = keepForever ? " · 📌 kept forever" : "";
+	return `${modified} · ${user}${pinned}`;
+};
+
+/**
+ * Create an embed listing the recent revisions of a file.
+ * @param file file to list revisions of
+ * @returns embed data
+ */
+const createRevisionsEmbed = async ({
+	id,
+	data: { name, webViewLink, mimeType },
+}: EmbedFile): Promise<APIEmbed> => {
+	const revisions = await listRecentRevisions(id, maxRevisions);
+	const embed = new EmbedBuilder()
+		.setTitle(name ?? id)
+		.setURL(webViewLink ?? null)
+		.setColor(getFileType(mimeType).color);
+	if (!revisions) {
+		return embed
+			.setDescription(
+				"Revisions of this file are not accessible. The bot might need to be an editor of the file.",
+			)
+			.toJSON();
+	}
+	return embed
+		.setDescription(
+			revisions.length > 0
+				? revisions.map(createRevisionLine).join("\n")
+				: "This file has no revisions.",
+		)
+		.setFooter({ text: `Latest ${revisions.length} revisions` })
+		.toJSON();
+};
+
+/**
+ * Check if a file can be shown in the channel of an interaction by the access policy.
+ * @param channel channel of the interaction, or null if unknown
+ * @param file file to show
+ * @returns true if the file can be shown
+ */
+const isAllowedFile = async (
+	channel: GuildTextBasedChannel | null,
+	file: EmbedFile,
+): Promise<boolean> =>
+	// the policy cannot be checked without the channel
+	channel ? await isAllowedInChannel(channel, file) : false;
+
+/**
+ * Find accessible files linked in a message, excluding folders and shortcuts which have no revisions.
+ * Files which cannot be shown in the channel by the access policy are excluded too.
+ * @param content content of the message
+ * @param channel channel of the interaction, or null if unknown
+ * @returns files with shortcuts resolved, without duplicates
+ */
+const findLinkedFiles = async (
+	content: string,
+	channel: GuildTextBasedChannel | null,
+): Promise<EmbedFile[]> => {
+	const files = await Promise.all(
+		extractDriveLinks(content).map(async ({ fileId, resourceKey }) => {
+			const data = await getFile(fileId, resourceKey);
+			const file = data
+				? await resolveShortcut({ id: fileId, data })
+				: undefined;
+			return file && (await isAllowedFile(channel, file)) ? file : undefined;
+		}),
+	);
+	const filesById = new Map<string, EmbedFile>();
+	for (const file of files) {
+		// shortcuts remain if their targets are not accessible
+		if (
+			file &&
+			file.data.mimeType !== folderMimeType &&
+			file.data.mimeType !== shortcutMimeType
+		) {
+			filesById.set(file.id, file);
+		}
+	}
+	return [...filesById.values()];
+};
+
+/**
+ * Create the value of a select menu option of a file.
+ * The resource key is kept since some files are accessible only with it.
+ * @param file file of the option
+ * @returns value of the option, e.g. `fileId/resourceKey`
+ */
+const createFileOptionValue = ({ id, data }: EmbedFile): string =>
+	data.resourceKey ? `${id}/${data.resourceKey}` : id;
+
+/**
+ * Parse the value of a select menu option of a file.
+ * @param value value created by `createFileOptionValue`
+ * @returns ID and resource key of the file
+ */
+const parseFileOptionValue = (
+	value: string,
+): { fileId: string; resourceKey?: string } => {
+	const [fileId = "", resourceKey] = value.split("/");
+	return resourceKey ? { fileId, resourceKey } : { fileId };
+};
+
+/**
+ * Create a row of a select menu to choose a file.
+ * @param files files to choose from
+ * @returns row of the select menu
+ */
+const createFileSelectMenu = (
+	files: EmbedFile[],
+): ActionRowBuilder<StringSelectMenuBuilder> =>
+	new ActionRowBuilder<StringSelectMenuBuilder>().setComponents(
+		new StringSelectMenuBuilder()
+			.setCustomId(createCustomId(revisionsSelectMenuPrefix))
+			.setPlaceholder("Select a file")
+			.setOptions(
+				files.slice(0, maxSelectOptions).map((file) => ({
+					label: (file.data.name ?? file.id).slice(0, maxOptionLabelLength),
+					value: createFileOptionValue(file),
+					emoji: getFileType(file.data.mimeType).emoji,
+				})),
+			),
+	);
+
+/**
+ * Message context menu command to show the recent revisions of files linked in a message.
+ */
+export const showRevisionsCommand: ExecutableCommand = {
+	type: ApplicationCommandType.Message,
+	data: new ContextMenuCommandBuilder()
+		.setType(ApplicationCommandType.Message)
+		.setName("Show Revisions")
+		.toJSON(),
+	execute: async (interaction) => {
+		await interaction.deferReply({ ephemeral: true });
+		const files = await findLinkedFiles(
+			interaction.targetMessage.content,
+			interaction.inGuild() ? interaction.channel : null,
+		);
+		const [file] = files;
+		if (!file) {
+			await interaction.editReply(
+				"No accessible Google Drive files are linked in this message.",
+			);
+			return;
+		}
+		if (files.length === 1) {
+			await interaction.editReply({
+				embeds: [await createRevisionsEmbed(file)],
+			});
+			return;
+		}
+		await interaction.editReply({
+			content: "Select a file to show its revisions.",
+			components: [createFileSelectMenu(files)],
+		});
+	},
+};
+
+/**
+ * Select menu to choose a file to show its revisions.
+ * The menu is kept in the reply to switch between files.
+ */
+export const revisionsSelectMenu: ExecutableComponent = {
+	type: ComponentType.StringSelect,
+	prefix: revisionsSelectMenuPrefix,
+	execute: async (interaction) => {
+		const [value] = interaction.values;
+		if (!value) {
+			throw new Error(`No file selected: ${interaction.customId}`);
+		}
+		await interaction.deferUpdate();
+
+		// keep the options, and mark the selected one as default
+		const menu = StringSelectMenuBuilder.from(interaction.component);
+		menu.setOptions(
+			menu.options.map((option) =>
+				option.setDefault(option.data.value === value),
+			),
+		);
+		const components = [
+			new ActionRowBuilder<StringSelectMenuBuilder>().setComponents(menu),
+		];
+
+		const { fileId, resourceKey } = parseFileOptionValue(value);
+		const data = await getFile(fileId, resourceKey);
+		// check again since the policy might have changed after the menu was shown
+		if (
+			!(
+				data &&
+				(await isAllowedFile(
+					interaction.inGuild() ? interaction.channel : null,
+					{ id: fileId, data },
+				))
+			)
+		) {
+			await interaction.editReply({
+				content: "This file is no longer accessible.",
+				embeds: [],
+				components,
+			});
+			return;
+		}
+		await interaction.editReply({
+			content: "",
+			embeds: [await createRevisionsEmbed({ id: fileId, data })],
+			components,
+		});
+	},
+};
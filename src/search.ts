@@ -0,0 +1,169 @@
+import {
+	type ApplicationCommandOptionChoiceData,
+	SlashCommandSubcommandBuilder,
+} from "discord.js";
+import { applyAccessPolicy, isAllowedInChannel } from "./access";
+import type { ExecutableSubcommand } from "./commands";
+import { auditEmbeds, createFileEmbeds, resolveShortcut } from "./embeds";
+import { selectableFileTypes } from "./fileTypes";
+import { fileFields, folderMimeType, searchFiles } from "./gdrive";
+import { getRenderingOptions } from "./guilds";
+import { isFileId, parseDriveUrl } from "./links";
+
+// a message can contain up to 10 embeds
+const maxResults = 10;
+// autocomplete can suggest up to 25 choices
+// ref: https://discord.com/developers/docs/interactions/application-commands#autocomplete
+const maxSuggestions = 25;
+// names and values of choices are limited to 100 characters
+const maxChoiceLength = 100;
+
+/**
+ * Resolve the value of the `in` option into a folder ID.
+ * @param value folder URL, or folder ID selected from suggestions
+ * @returns folder ID, or undefined if the value is neither a Google Drive URL nor a folder ID
+ */
+const resolveFolderId = (value: string): string | undefined =>
+	parseDriveUrl(value)?.fileId ?? (isFileId(value) ? value : undefined);
+
+/**
+ * Subcommand to search files shared with the service account.
+ */
+export const searchSubcommand: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandBuilder()
+		.setName("search")
+		.setDescription("Search Google Drive files shared with the bot")
+		.addStringOption((option) =>
+			option
+				.setName("query")
+				.setDescription("Part of the file name")
+				.setRequired(true)
+				.setAutocomplete(true),
+		)
+		.addStringOption((option) =>
+			option
+				.setName("type")
+				.setDescription("Type of files")
+				.setChoices(
+					selectableFileTypes.map(([id, { name }]) => ({ name, value: id })),
+				),
+		)
+		.addStringOption((option) =>
+			option
+				.setName("in")
+				.setDescription("Folder containing files")
+				.setAutocomplete(true),
+		)
+		.addBooleanOption((option) =>
+			option
+				.setName("share")
+				.setDescription("Post results to the channel instead of only to you"),
+		),
+	execute: async (interaction) => {
+		const share = interaction.options.getBoolean("share") ?? false;
+		await interaction.deferReply({ ephemeral: !share });
+
+		// the folder ID is embedded in the query, so it must not contain quotes
+		const folder = interaction.options.getString("in");
+		const folderId = folder ? resolveFolderId(folder) : undefined;
+		if (folder && !folderId) {
+			await interaction.editReply(
+				"The folder must be a Google Drive folder URL or a folder ID.",
+			);
+			return;
+		}
+		const type = interaction.options.getString("type");
+		const files = await searchFiles(
+			{
+				name: interaction.options.getString("query", true),
+				mimeTypes: selectableFileTypes.find(([id]) => id === type)?.[1]
+					.mimeTypes,
+				folderId,
+			},
+			fileFields,
+			maxResults,
+		);
+		const channel = interaction.inGuild() ? interaction.channel : null;
+		const rendering = channel ? getRenderingOptions(channel) : undefined;
+		if (!(channel && rendering)) {
+			await interaction.editReply("Search is not available in this channel.");
+			return;
+		}
+		// apply the policy even to private results, since members might not be allowed to see the files
+		const { files: allowedFiles } = await applyAccessPolicy(
+			channel,
+			await Promise.all(
+				files.flatMap(({ id, ...data }) =>
+					id ? [resolveShortcut({ id, data })] : [],
+				),
+			),
+			"search",
+		);
+		if (allowedFiles.length === 0) {
+			await interaction.editReply("No files found.");
+			return;
+		}
+
+		const {
+			embeds,
+			components,
+			files: attachments,
+		} = await createFileEmbeds(allowedFiles, rendering);
+		const reply = await interaction.editReply({
+			embeds,
+			components,
+			files: attachments,
+		});
+		// only results posted to the channel are recorded, like embeds of links
+		if (share) {
+			await auditEmbeds(
+				{
+					id: reply.id,
+					guildId: channel.guildId,
+					channelId: channel.id,
+					client: interaction.client,
+					author: interaction.user,
+				},
+				"shared",
+				// neutral cards of restricted files reveal nothing
+				allowedFiles.filter(({ restricted }) => !restricted),
+			);
+		}
+	},
+	autocomplete: async (interaction) => {
+		const { name, value } = interaction.options.getFocused(true);
+		const files = await searchFiles(
+			{
+				name: value,
+				// only suggest folders for the `in` option
+				mimeTypes: name === "in" ? [folderMimeType] : undefined,
+			},
+			"name,parents",
+			maxSuggestions,
+		);
+		const channel = interaction.inGuild() ? interaction.channel : null;
+		// do not suggest names of files which cannot be shown in the channel
+		const allowed = await Promise.all(
+			files.map(({ id, ...data }) =>
+				channel && id ? isAllowedInChannel(channel, { id, data }) : false,
+			),
+		);
+		const choices: ApplicationCommandOptionChoiceData<string>[] = files
+			.filter((_, i) => allowed[i])
+			.flatMap(({ id, name: fileName }) =>
+				id && fileName
+					? [
+							{
+								name: fileName.slice(0, maxChoiceLength),
+								// suggest folder IDs for the `in` option to identify folders with the same name
+								value: (name === "in" ? id : fileName).slice(
+									0,
+									maxChoiceLength,
+								),
+							},
+						]
+					: [],
+			);
+		await interaction.respond(choices);
+	},
+};
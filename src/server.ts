@@ -0,0 +1,51 @@
+import { serve } from "bun";
+import { consola } from "consola";
+import { type Client, Status } from "discord.js";
+import { config } from "./config";
+import { isDriveReady } from "./gdrive";
+import { renderMetrics } from "./metrics";
+
+/**
+ * Check the readiness of the bot.
+ * @param client Discord client
+ * @returns status of each dependency
+ */
+const checkReadiness = (client: Client) => ({
+	discord: client.ws.status === Status.Ready,
+	drive: isDriveReady(),
+});
+
+/**
+ * Start an HTTP server for health checks and metrics, if the port is configured.
+ * - `/healthz`: always 200 while the process is running
+ * - `/readyz`: 200 if the Discord gateway is connected and Google Drive API is available, otherwise 503
+ * - `/metrics`: metrics in the Prometheus text format
+ * @param client Discord client, which might not be ready yet
+ */
+export const startHttpServer = (client: Client) => {
+	if (config.httpPort === undefined) {
+		return;
+	}
+	const server = serve({
+		port: config.httpPort,
+		fetch: (request) => {
+			const { pathname } = new URL(request.url);
+			if (pathname === "/healthz") {
+				return new Response("ok");
+			}
+			if (pathname === "/readyz") {
+				const readiness = checkReadiness(client);
+				return Response.json(readiness, {
+					status: Object.values(readiness).every(Boolean) ? 200 : 503,
+				});
+			}
+			if (pathname === "/metrics") {
+				return new Response(renderMetrics(), {
+					headers: { "Content-Type": "text/plain; version=0.0.4" },
+				});
+			}
+			return new Response("Not Found", { status: 404 });
+		},
+	});
+	consola.info(`HTTP server is listening on port ${server.port}.`);
+};
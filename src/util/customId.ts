@@ -0,0 +1,33 @@
+// custom IDs of message components are limited to 100 characters
+// ref: https://discord.com/developers/docs/interactions/message-components#custom-id
+const maxCustomIdLength = 100;
+const separator = ":";
+
+/**
+ * Create a custom ID of a message component.
+ * @param prefix prefix to route the interaction to its handler
+ * @param args arguments passed to the handler, which must not contain `:`
+ * @returns custom ID
+ */
+export const createCustomId = (
+	prefix: string,
+	...args: (string | number)[]
+): string => {
+	const customId = [prefix, ...args].join(separator);
+	if (customId.length > maxCustomIdLength) {
+		throw new Error(`Custom ID is too long: ${customId}`);
+	}
+	return customId;
+};
+
+/**
+ * Parse a custom ID of a message component.
+ * @param customId custom ID created by `createCustomId`
+ * @returns prefix and arguments
+ */
+export const parseCustomId = (
+	customId: string,
+): { prefix: string; args: string[] } => {
+	const [prefix = "", ...args] = customId.split(separator);
+	return { prefix, args };
+};
@@ -0,0 +1,10 @@
+import { escapeMarkdown } from "discord.js";
+
+/**
+ * Escape text to show as the text of a markdown link.
+ * `escapeMarkdown` does not escape brackets, which would end the link text early, e.g. in `[Draft] Plan`.
+ * @param text text such as a file name
+ * @returns escaped text
+ */
+export const escapeLinkText = (text: string): string =>
+	escapeMarkdown(text).replace(/[[\]]/g, "\\$&");
@@ -0,0 +1,46 @@
+/**
+ * Create a queue which runs tasks with the same key one by one in order.
+ * A task is skipped if a newer task with the same key and the same kind is enqueued before it starts,
+ * so only the latest state is applied after bursts of tasks, while tasks of other kinds always run.
+ * @returns function to enqueue a task of a kind, which resolves when the task finishes or is skipped
+ */
+export const createKeyedQueue = () => {
+	const tails = new Map<string, Promise<void>>();
+	// latest versions of tasks per kind, keyed by the keys of the tasks
+	const latestVersions = new Map<string, Map<string, number>>();
+	let nextVersion = 0;
+
+	return async (
+		key: string,
+		kind: string,
+		task: () => Promise<void>,
+	): Promise<void> => {
+		nextVersion += 1;
+		const version = nextVersion;
+		const versions = latestVersions.get(key) ?? new Map<string, number>();
+		versions.set(kind, version);
+		latestVersions.set(key, versions);
+
+		const previous = tails.get(key) ?? Promise.resolve();
+		const current = previous
+			// errors of previous tasks are handled by their callers
+			.catch(() => undefined)
+			.then(async () => {
+				if (latestVersions.get(key)?.get(kind) !== version) {
+					return;
+				}
+				await task();
+			});
+		tails.set(key, current);
+
+		try {
+			await current;
+		} finally {
+			// clean up if no task is enqueued after this one
+			if (tails.get(key) === current) {
+				tails.delete(key);
+				latestVersions.delete(key);
+			}
+		}
+	};
+};
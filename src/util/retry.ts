@@ -0,0 +1,43 @@
+import { sleep } from "bun";
+
+/**
+ * Run an async function, retrying with exponential backoff and full jitter on retryable errors.
+ * @param fn function to run
+ * @param options options of retries
+ * @returns result of the function
+ */
+// ref: https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+export const retry = async <T>(
+	fn: () => Promise<T>,
+	{
+		isRetryable,
+		maxRetries = 5,
+		baseDelay = 500,
+		maxDelay = 30_000,
+	}: {
+		/**
+		 * Function to check if an error is retryable.
+		 */
+		isRetryable: (error: unknown) => boolean;
+		maxRetries?: number;
+		/**
+		 * Delay of the first retry before jitter, in milliseconds.
+		 */
+		baseDelay?: number;
+		/**
+		 * Maximum delay of retries before jitter, in milliseconds.
+		 */
+		maxDelay?: number;
+	},
+): Promise<T> => {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= maxRetries || !isRetryable(error)) {
+				throw error;
+			}
+			await sleep(Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+		}
+	}
+};
@@ -0,0 +1,177 @@
+/**
+ * Expected shape of a value read from a JSON or TS file.
+ * - `string`, `number`, `boolean`, and `string[]`: primitive values and arrays of strings
+ * - `string` with `pattern`: string matching the pattern, described by `format` in error messages
+ * - `enum`: one of the strings in `values`
+ * - `object`: object whose known fields are all optional
+ * - `record`: object with arbitrary keys whose values have the same shape, and whose keys are snowflakes if `keys` is `snowflake`
+ */
+export type Schema =
+	| { type: "string" | "number" | "boolean" | "string[]" }
+	| { type: "string"; pattern: RegExp; format: string }
+	| { type: "enum"; values: readonly string[] }
+	| { type: "object"; fields: Record<string, Schema> }
+	| { type: "record"; values: Schema; keys?: "snowflake" };
+
+/**
+ * Pattern of snowflakes, IDs of Discord guilds, channels, roles, and so on.
+ */
+// ref: https://discord.com/developers/docs/reference#snowflakes
+export const snowflakeRegex = /^\d{17,20}$/;
+
+// descriptions of expected shapes in error messages, except `enum`
+const typeDescriptions = {
+	string: "a string",
+	number: "a number",
+	boolean: "true or false",
+	"string[]": "an array of strings",
+	object: "an object",
+	record: "an object",
+} as const;
+
+/**
+ * Describe the expected shape of a value in an error message.
+ * @param schema expected shape
+ * @returns description, e.g. `a string`
+ */
+const describeSchema = (schema: Schema): string => {
+	if (schema.type === "enum") {
+		return `one of ${schema.values.join(", ")}`;
+	}
+	if ("pattern" in schema) {
+		return `a string in the ${schema.format} format`;
+	}
+	return typeDescriptions[schema.type];
+};
+
+/**
+ * Check if a value is a plain object, not an array nor null.
+ * @param value value to check
+ * @returns true if the value is a plain object
+ */
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check if a value matches a schema, ignoring the fields of objects.
+ * @param value value to check
+ * @param schema expected shape
+ * @returns true if the value itself matches
+ */
+const matchesSchema = (value: unknown, schema: Schema): boolean => {
+	if (schema.type === "string[]") {
+		return (
+			Array.isArray(value) && value.every((item) => typeof item === "string")
+		);
+	}
+	if (schema.type === "enum") {
+		return typeof value === "string" && schema.values.includes(value);
+	}
+	if (schema.type === "object" || schema.type === "record") {
+		return isObject(value);
+	}
+	if (schema.type === "number") {
+		return typeof value === "number";
+	}
+	if (schema.type === "boolean") {
+		return typeof value === "boolean";
+	}
+	return (
+		typeof value === "string" &&
+		(!("pattern" in schema) || schema.pattern.test(value))
+	);
+};
+
+/**
+ * Join a key to the path of its parent.
+ * @param path path of the parent, or an empty string for the root
+ * @param key key of the child
+ * @returns path of the child, e.g. `discord.guildIds`
+ */
+const joinPath = (path: string, key: string): string =>
+	path ? `${path}.${key}` : key;
+
+/**
+ * Find the schema of a child of an object or a record, and report the key if it is invalid.
+ * @param schema schema of the parent
+ * @param key key of the child
+ * @param childPath path of the child in error messages
+ * @param errors array to push error messages to
+ * @returns schema of the child, or undefined if the key is invalid
+ */
+const findChildSchema = (
+	schema: Extract<Schema, { type: "object" | "record" }>,
+	key: string,
+	childPath: string,
+	errors: string[],
+): Schema | undefined => {
+	if (schema.type === "object") {
+		const childSchema = schema.fields[key];
+		if (!childSchema) {
+			errors.push(
+				`${childPath} is not a known setting. Check the spelling of the key.`,
+			);
+		}
+		return childSchema;
+	}
+	if (schema.keys === "snowflake" && !snowflakeRegex.test(key)) {
+		errors.push(
+			`The key of ${childPath} is not a snowflake. Copy the ID with Developer Mode enabled.`,
+		);
+		return;
+	}
+	return schema.values;
+};
+
+/**
+ * Validate a value against a schema, and remove invalid values from it.
+ * Each invalid value is reported with its path, so that the rest of the value can still be used.
+ * @param value value to validate
+ * @param schema expected shape
+ * @param path path of the value in error messages, or an empty string for the root
+ * @param errors array to push error messages to
+ * @returns value without invalid values, or undefined if the value itself is invalid
+ */
+export const validateSchema = (
+	value: unknown,
+	schema: Schema,
+	path: string,
+	errors: string[],
+): unknown => {
+	if (!matchesSchema(value, schema)) {
+		errors.push(
+			`${path || "The contents"} must be ${describeSchema(
+				schema,
+			)}, but got ${JSON.stringify(value)}.`,
+		);
+		return;
+	}
+	if (
+		!(isObject(value) && (schema.type === "object" || schema.type === "record"))
+	) {
+		return value;
+	}
+
+	const validated: Record<string, unknown> = {};
+	for (const [key, child] of Object.entries(value)) {
+		const childPath = joinPath(path, key);
+		const childSchema = findChildSchema(schema, key, childPath, errors);
+		if (!childSchema) {
+			continue;
+		}
+		// keep undefined fields of TS files as missing
+		if (child === undefined) {
+			continue;
+		}
+		const validatedChild = validateSchema(
+			child,
+			childSchema,
+			childPath,
+			errors,
+		);
+		if (validatedChild !== undefined) {
+			validated[key] = validatedChild;
+		}
+	}
+	return validated;
+};
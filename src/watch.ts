@@ -0,0 +1,354 @@
+import {
+	type ApplicationCommandOptionChoiceData,
+	type AutocompleteInteraction,
+	ChannelType,
+	type ChatInputCommandInteraction,
+	type GuildBasedChannel,
+	type GuildTextBasedChannel,
+	PermissionFlagsBits,
+	SlashCommandSubcommandBuilder,
+	channelMention,
+} from "discord.js";
+import { isAllowedInChannel } from "./access";
+import type { ExecutableSubcommand } from "./commands";
+import { type FileTypeId, fileTypes, selectableFileTypes } from "./fileTypes";
+import {
+	type FolderWatch,
+	type WatchEvents,
+	deleteFolderWatch,
+	findGuildFolderWatches,
+	saveFolderWatch,
+} from "./folderWatches";
+import { folderMimeType, getFile, searchFiles } from "./gdrive";
+import { isEnabledChannel } from "./guilds";
+import { parseDriveUrl } from "./links";
+
+// autocomplete can suggest up to 25 choices
+// ref: https://discord.com/developers/docs/interactions/application-commands#autocomplete
+const maxSuggestions = 25;
+// names and values of choices are limited to 100 characters
+const maxChoiceLength = 100;
+
+// channels which notifications can be posted to
+const watchableChannelTypes = [
+	ChannelType.GuildText,
+	ChannelType.GuildAnnouncement,
+	ChannelType.GuildVoice,
+	ChannelType.PublicThread,
+	ChannelType.PrivateThread,
+	ChannelType.AnnouncementThread,
+] as const;
+
+/**
+ * Check if the member who invoked a command can manage watches, and reply if not.
+ * @param interaction interaction of the command
+ * @returns true if the member has the Manage Server permission
+ */
+const checkPermission = async (
+	interaction: ChatInputCommandInteraction,
+): Promise<boolean> => {
+	// subcommands cannot have their own default permissions, so check them here
+	if (interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+		return true;
+	}
+	await interaction.reply({
+		content: "You need the Manage Server permission to watch folders.",
+		ephemeral: true,
+	});
+	return false;
+};
+
+/**
+ * Resolve the value of the `folder` option into a folder ID.
+ * @param value folder URL, or folder ID selected from suggestions
+ * @returns folder ID and its resource key if any
+ */
+const resolveFolder = (
+	value: string,
+): { folderId: string; resourceKey?: string } => {
+	const link = parseDriveUrl(value);
+	if (!link) {
+		return { folderId: value };
+	}
+	return {
+		folderId: link.fileId,
+		...(link.resourceKey ? { resourceKey: link.resourceKey } : {}),
+	};
+};
+
+/**
+ * Resolve the channel to post notifications to from the options of a command.
+ * @param interaction interaction of the command
+ * @returns channel, or undefined if the bot is not enabled in the channel
+ */
+const resolveChannel = async (
+	interaction: ChatInputCommandInteraction,
+): Promise<GuildTextBasedChannel | undefined> => {
+	const { id } = interaction.options.getChannel("channel", true);
+	const channel = await interaction.guild?.channels.fetch(id);
+	if (!(channel?.isTextBased() && isEnabledChannel(channel))) {
+		return;
+	}
+	return channel;
+};
+
+/**
+ * Resolve the channel to check the access policy against while suggesting folders.
+ * @param interaction interaction of the autocomplete
+ * @returns channel to post notifications to if already chosen, otherwise the current channel
+ */
+const resolveSuggestionChannel = (
+	interaction: AutocompleteInteraction,
+): GuildBasedChannel | null | undefined => {
+	const channelId = interaction.options.get("channel")?.value;
+	if (typeof channelId === "string") {
+		return interaction.guild?.channels.cache.get(channelId);
+	}
+	return interaction.inGuild() ? interaction.channel : null;
+};
+
+/**
+ * Format the options of a watch.
+ * @param watch watch of a folder
+ * @returns options separated by commas
+ */
+const formatWatch = ({ subfolders, events, fileType }: FolderWatch): string =>
+	[
+		events === "created" ? "added files" : "added or modified files",
+		fileType ? `type: ${fileTypes[fileType].name}` : [],
+		subfolders ? "including subfolders" : [],
+	]
+		.flat()
+		.join(", ");
+
+/**
+ * Subcommand to post notifications of changed files in a folder.
+ */
+export const watchSubcommand: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandBuilder()
+		.setName("watch")
+		.setDescription(
+			"Notify a channel of files added or modified in a folder (admin only)",
+		)
+		.addStringOption((option) =>
+			option
+				.setName("folder")
+				.setDescription("URL of the folder to watch")
+				.setRequired(true)
+				.setAutocomplete(true),
+		)
+		.addChannelOption((option) =>
+			option
+				.setName("channel")
+				.setDescription("Channel to post notifications to")
+				.setRequired(true)
+				.addChannelTypes(...watchableChannelTypes),
+		)
+		.addBooleanOption((option) =>
+			option
+				.setName("subfolders")
+				.setDescription("Whether to watch subfolders too (default: false)"),
+		)
+		.addStringOption((option) =>
+			option
+				.setName("notify")
+				.setDescription("Changes to notify (default: added or modified files)")
+				.setChoices(
+					{ name: "Added files", value: "created" },
+					{ name: "Added or modified files", value: "modified" },
+				),
+		)
+		.addStringOption((option) =>
+			option
+				.setName("type")
+				.setDescription("Type of files to notify (default: all)")
+				.setChoices(
+					selectableFileTypes.map(([id, { name }]) => ({ name, value: id })),
+				),
+		),
+	execute: async (interaction) => {
+		if (!(await checkPermission(interaction))) {
+			return;
+		}
+		await interaction.deferReply({ ephemeral: true });
+
+		const channel = await resolveChannel(interaction);
+		if (!channel) {
+			await interaction.editReply(
+				"The bot is not enabled in the channel, or cannot read it.",
+			);
+			return;
+		}
+		const { folderId, resourceKey } = resolveFolder(
+			interaction.options.getString("folder", true),
+		);
+		const folder = await getFile(folderId, resourceKey);
+		if (folder?.mimeType !== folderMimeType) {
+			await interaction.editReply(
+				"The folder is not found. Make sure that it is shared with the bot.",
+			);
+			return;
+		}
+		// the name of the folder is posted with notifications
+		if (!(await isAllowedInChannel(channel, { id: folderId, data: folder }))) {
+			await interaction.editReply(
+				"The folder cannot be shown in the channel by the access policy.",
+			);
+			return;
+		}
+
+		const fileType = interaction.options.getString("type") as FileTypeId | null;
+		const watch: FolderWatch = {
+			guildId: channel.guildId,
+			channelId: channel.id,
+			folderId,
+			// keep the key even if the folder is selected from suggestions without it
+			...(folder.resourceKey ? { resourceKey: folder.resourceKey } : {}),
+			folderName: folder.name ?? folderId,
+			subfolders: interaction.options.getBoolean("subfolders") ?? false,
+			events:
+				(interaction.options.getString("notify") as WatchEvents | null) ??
+				"modified",
+			...(fileType ? { fileType } : {}),
+			// notify changes after now
+			cursor: new Date().toISOString(),
+		};
+		saveFolderWatch(watch);
+		await interaction.editReply(
+			`Watching ${watch.folderName} in ${channel}: ${formatWatch(watch)}.`,
+		);
+	},
+	autocomplete: async (interaction) => {
+		// do not reveal names of folders to members who cannot watch them
+		if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+			await interaction.respond([]);
+			return;
+		}
+		const channel = resolveSuggestionChannel(interaction);
+		if (!channel) {
+			await interaction.respond([]);
+			return;
+		}
+		const folders = await searchFiles(
+			{
+				name: interaction.options.getFocused(),
+				mimeTypes: [folderMimeType],
+			},
+			"name,parents",
+			maxSuggestions,
+		);
+		const allowed = await Promise.all(
+			folders.map(({ id, ...data }) =>
+				id ? isAllowedInChannel(channel, { id, data }) : false,
+			),
+		);
+		const choices: ApplicationCommandOptionChoiceData<string>[] = folders
+			.filter((_, i) => allowed[i])
+			.flatMap(({ id, name }) =>
+				id && name
+					? [
+							{
+								name: name.slice(0, maxChoiceLength),
+								// suggest folder IDs to identify folders with the same name
+								value: id,
+							},
+						]
+					: [],
+			);
+		await interaction.respond(choices);
+	},
+};
+
+/**
+ * Subcommand to stop notifications of a folder.
+ */
+export const unwatchSubcommand: ExecutableSubcommand = {
+	data: new SlashCommandSubcommandBuilder()
+		.setName("unwatch")
+		.setDescription("Stop notifying changes in a folder (admin only)")
+		.addStringOption((option) =>
+			option
+				.setName("folder")
+				.setDescription("URL of the watched folder")
+				.setRequired(true)
+				.setAutocomplete(true),
+		)
+		.addChannelOption((option) =>
+			option
+				.setName("channel")
+				.setDescription("Channel to stop notifications in (default: all)")
+				.addChannelTypes(...watchableChannelTypes),
+		),
+	execute: async (interaction) => {
+		const { guildId } = interaction;
+		if (!(guildId && (await checkPermission(interaction)))) {
+			return;
+		}
+		const { folderId } = resolveFolder(
+			interaction.options.getString("folder", true),
+		);
+		const channelId = interaction.options.getChannel("channel")?.id;
+		const watches = findGuildFolderWatches(guildId).filter(
+			(watch) =>
+				watch.folderId === folderId &&
+				(!channelId || watch.channelId === channelId),
+		);
+		if (watches.length === 0) {
+			await interaction.reply({
+				content: "The folder is not watched.",
+				ephemeral: true,
+			});
+			return;
+		}
+
+		for (const watch of watches) {
+			deleteFolderWatch(watch);
+		}
+		await interaction.reply({
+			content: `Stopped watching ${watches[0]?.folderName} in ${watches
+				.map(({ channelId }) => channelMention(channelId))
+				.join(", ")}.`,
+			ephemeral: true,
+		});
+	},
+	autocomplete: async (interaction) => {
+		// do not reveal names of watched folders to members who cannot unwatch them
+		if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+			await interaction.respond([]);
+			return;
+		}
+		const channel = resolveSuggestionChannel(interaction);
+		if (!channel) {
+			await interaction.respond([]);
+			return;
+		}
+		const focused = interaction.options.getFocused().toLowerCase();
+		// suggest watched folders in the guild, once per folder
+		const folders = [
+			...new Map(
+				findGuildFolderWatches(channel.guildId)
+					.filter(({ folderName }) =>
+						folderName.toLowerCase().includes(focused),
+					)
+					.map((watch) => [watch.folderId, watch]),
+			).values(),
+		].slice(0, maxSuggestions);
+		// do not suggest names of folders which cannot be shown in the channel, as the watch autocomplete
+		const allowed = await Promise.all(
+			folders.map(async ({ folderId, resourceKey }) => {
+				const folder = await getFile(folderId, resourceKey);
+				return folder
+					? await isAllowedInChannel(channel, { id: folderId, data: folder })
+					: false;
+			}),
+		);
+		await interaction.respond(
+			folders
+				.filter((_, i) => allowed[i])
+				.map(({ folderId, folderName }) => ({
+					name: folderName.slice(0, maxChoiceLength),
+					value: folderId,
+				})),
+		);
+	},
+};
@@ -0,0 +1,163 @@
+import { sleep } from "bun";
+import { consola } from "consola";
+import {
+	type Client,
+	DiscordAPIError,
+	RESTJSONErrorCodes,
+	SnowflakeUtil,
+} from "discord.js";
+import { config } from "./config";
+import { getState, setState } from "./database";
+import { updateEmbedsMessage } from "./embeds";
+import { driveClient, invalidateFile, withDriveRetry } from "./gdrive";
+import { findSourcesByFileId } from "./mappings";
+
+const pageTokenStateKey = "changes.pageToken";
+
+/**
+ * Interval to poll changes in Google Drive, in milliseconds.
+ * Polling is disabled if 0.
+ */
+const pollInterval = config.watch.intervalSeconds * 1000;
+
+/**
+ * Maximum age of source messages whose embeds are refreshed, in milliseconds.
+ */
+const maxMessageAge = config.watch.maxAgeDays * 86_400_000;
+
+/**
+ * List IDs of files changed since the persisted page token, and persist the new page token.
+ * @returns IDs of changed files
+ */
+const listChangedFileIds = async (): Promise<Set<string>> => {
+	let pageToken = getState(pageTokenStateKey);
+	if (!pageToken) {
+		// start watching from now on the first run
+		const { data } = await withDriveRetry(() =>
+			driveClient.changes.getStartPageToken({ supportsAllDrives: true }),
+		);
+		if (!data.startPageToken) {
+			throw new Error("Failed to get the start page token of changes.");
+		}
+		setState(pageTokenStateKey, data.startPageToken);
+		return new Set();
+	}
+
+	const fileIds = new Set<string>();
+	while (pageToken) {
+		// annotate to keep the narrowed type in the closure
+		const currentPageToken: string = pageToken;
+		const { data } = await withDriveRetry(() =>
+			driveClient.changes.list({
+				pageToken: currentPageToken,
+				includeItemsFromAllDrives: true,
+				supportsAllDrives: true,
+				fields: "nextPageToken,newStartPageToken,changes(fileId)",
+			}),
+		);
+		for (const { fileId } of data.changes ?? []) {
+			if (fileId) {
+				fileIds.add(fileId);
+			}
+		}
+		// newStartPageToken is only returned in the last page
+		if (data.newStartPageToken) {
+			setState(pageTokenStateKey, data.newStartPageToken);
+		}
+		pageToken = data.nextPageToken ?? undefined;
+	}
+	return fileIds;
+};
+
+/**
+ * Refresh the embeds message of a source message.
+ * Failures are logged rather than thrown, since the changes are already consumed and other messages must still be refreshed.
+ * @param client client to fetch the source message
+ * @param source IDs of the source message and its channel
+ */
+const refreshEmbeds = async (
+	client: Client<true>,
+	{ sourceId, channelId }: { sourceId: string; channelId: string },
+) => {
+	try {
+		const channel = await client.channels.fetch(channelId);
+		if (!channel?.isTextBased()) {
+			return;
+		}
+		const sourceMessage = await channel.messages.fetch(sourceId);
+		// diffing in updateEmbedsMessage skips unchanged embeds
+		await updateEmbedsMessage(sourceMessage);
+	} catch (error) {
+		// the source message or the channel might be deleted
+		if (
+			error instanceof DiscordAPIError &&
+			(error.code === RESTJSONErrorCodes.UnknownMessage ||
+				error.code === RESTJSONErrorCodes.UnknownChannel)
+		) {
+			consola.debug(
+				`Skipped refreshing embeds of deleted message ${sourceId} in ${channelId}.`,
+			);
+			return;
+		}
+		consola.error(
+			`Failed to refresh embeds of message ${sourceId} in ${channelId}.`,
+		);
+		// do not use consola#error to throw Error since it cannot handle line numbers correctly
+		console.error(error);
+	}
+};
+
+/**
+ * Poll changes in Google Drive once, and refresh embeds of changed files.
+ * @param client client to fetch source messages
+ */
+const pollChanges = async (client: Client<true>) => {
+	const fileIds = await listChangedFileIds();
+
+	const minTimestamp = Date.now() - maxMessageAge;
+	// deduplicate source messages including multiple changed files
+	const sources = new Map<string, { sourceId: string; channelId: string }>();
+	for (const fileId of fileIds) {
+		invalidateFile(fileId);
+		for (const source of findSourcesByFileId(fileId)) {
+			if (SnowflakeUtil.timestampFrom(source.sourceId) >= minTimestamp) {
+				sources.set(source.sourceId, source);
+			}
+		}
+	}
+	if (sources.size === 0) {
+		return;
+	}
+
+	consola.info(`Refreshing embeds of ${sources.size} messages...`);
+	// do not parallelize to avoid rate limit
+	for (const source of sources.values()) {
+		await refreshEmbeds(client, source);
+	}
+};
+
+/**
+ * Start polling changes in Google Drive to refresh embeds automatically.
+ * @param client client after ready event
+ */
+export const startChangesWatcher = async (client: Client<true>) => {
+	if (!(pollInterval > 0)) {
+		consola.info("Watching changes in Google Drive is disabled.");
+		return;
+	}
+	consola.info(
+		`Watching changes in Google Drive every ${pollInterval / 1000} seconds.`,
+	);
+
+	// wait for each poll to finish to avoid overlapping polls
+	while (true) {
+		try {
+			await pollChanges(client);
+		} catch (error) {
+			consola.error("Failed to poll changes in Google Drive.");
+			// do not use consola#error to throw Error since it cannot handle line numbers correctly
+			console.error(error);
+		}
+		await sleep(pollInterval);
+	}
+};
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { folderMimeType } from "../src/gdrive";
+import { type AccessPolicy, guildSettings } from "../src/guilds";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	createFakeChannel,
+	findBotMessages,
+	nextSnowflake,
+	postSourceMessage,
+} from "./fakeDiscord";
+import {
+	createFakeFile,
+	otherFileId as privateFileId,
+	otherFileUrl as privateFileUrl,
+	fileId as publicFileId,
+	fileUrl as publicFileUrl,
+} from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long
+const publicFolderId = "1pppppppppppppppppppppppppppppppp";
+const subfolderId = "1ssssssssssssssssssssssssssssssss";
+const privateFolderId = "1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq";
+
+let channel: FakeChannel;
+
+/**
+ * Set the access policy of the test guild.
+ * @param policy policy overriding the default one, which allows the public folder in the channel
+ */
+const setPolicy = (policy: Partial<AccessPolicy> = {}) => {
+	const settings = guildSettings.get(testGuildId);
+	if (!settings) {
+		throw new Error("Test guild is not configured.");
+	}
+	settings.access = {
+		channels: { [channel.id]: [publicFolderId] },
+		roles: {},
+		restricted: "card",
+		...policy,
+	};
+};
+
+beforeEach(() => {
+	fakeDrive.files.set(
+		publicFolderId,
+		createFakeFile(publicFolderId, {
+			name: "Public",
+			mimeType: folderMimeType,
+		}),
+	);
+	fakeDrive.files.set(
+		subfolderId,
+		createFakeFile(subfolderId, {
+			name: "Minutes",
+			mimeType: folderMimeType,
+			parents: [publicFolderId],
+		}),
+	);
+	fakeDrive.files.set(
+		privateFolderId,
+		createFakeFile(privateFolderId, {
+			name: "Confidential",
+			mimeType: folderMimeType,
+		}),
+	);
+	fakeDrive.files.set(
+		publicFileId,
+		createFakeFile(publicFileId, {
+			name: "Meeting notes",
+			parents: [subfolderId],
+		}),
+	);
+	fakeDrive.files.set(
+		privateFileId,
+		createFakeFile(privateFileId, {
+			name: "Layoff plan",
+			parents: [privateFolderId],
+		}),
+	);
+	channel = createFakeChannel(testGuildId);
+});
+
+describe("access policy", () => {
+	test("shows files in descendants of allowed folders", async () => {
+		setPolicy();
+		await postSourceMessage(channel, publicFileUrl);
+		const [embedsMessage] = findBotMessages(channel);
+
+		expect(embedsMessage?.embeds[0]?.title).toStartWith("Meeting notes");
+	});
+
+	test("shows paths of files only from allowed folders", async () => {
+		setPolicy();
+		const publicFolder = fakeDrive.files.get(publicFolderId);
+		fakeDrive.files.set(publicFolderId, {
+			...publicFolder,
+			parents: [privateFolderId],
+		});
+		const settings = guildSettings.get(testGuildId);
+		if (settings) {
+			settings.channelRendering[channel.id] = { path: true };
+		}
+		await postSourceMessage(channel, publicFileUrl);
+		const [embedsMessage] = findBotMessages(channel);
+
+		expect(embedsMessage?.embeds[0]?.data.author?.name).toBe(
+			"Public › Minutes",
+		);
+	});
+
+	test("shows neutral cards for files outside allowed folders", async () => {
+		setPolicy();
+		await postSourceMessage(channel, `${publicFileUrl} ${privateFileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		const titles = embedsMessage?.embeds.map(({ title }) => title);
+		expect(titles?.[0]).toStartWith("Meeting notes");
+		expect(titles?.[1]).toBe("Restricted file");
+		expect(JSON.stringify(embedsMessage?.embeds)).not.toContain("Layoff plan");
+	});
+
+	test("hides files outside allowed folders if configured", async () => {
+		setPolicy({ restricted: "hide" });
+		await postSourceMessage(channel, privateFileUrl);
+		const embedsMessages = findBotMessages(channel);
+
+		expect(embedsMessages).toBeEmpty();
+	});
+
+	test("applies folders allowed in the category to its channels", async () => {
+		channel.parentId = nextSnowflake();
+		setPolicy({ channels: { [channel.parentId]: [privateFolderId] } });
+		await postSourceMessage(channel, privateFileUrl);
+		const [embedsMessage] = findBotMessages(channel);
+
+		expect(embedsMessage?.embeds[0]?.title).toStartWith("Layoff plan");
+	});
+
+	test("restricts all files in channels without allowed folders", async () => {
+		setPolicy({ channels: {} });
+		await postSourceMessage(channel, publicFileUrl);
+		const [embedsMessage] = findBotMessages(channel);
+
+		expect(embedsMessage?.embeds[0]?.title).toStartWith("Restricted file");
+	});
+});
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { file } from "bun";
+import { type AuditEvent, findAuditEvents } from "../src/auditEvents";
+import { deleteEmbedsMessage, updateEmbedsMessage } from "../src/embeds";
+import { folderMimeType } from "../src/gdrive";
+import { guildSettings } from "../src/guilds";
+import { testAuditLogPath, testGuildId } from "./config";
+import {
+	type FakeChannel,
+	type FakeMessage,
+	asMessage,
+	createFakeChannel,
+	postSourceMessage,
+	userId,
+} from "./fakeDiscord";
+import { createFakeFile, createFileUrl } from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long, and differ from other tests not to mix up their events
+const fileId = "1eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+const folderId = "1ffffffffffffffffffffffffffffffff";
+const fileUrl = createFileUrl(fileId);
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	fakeDrive.files.set(
+		folderId,
+		createFakeFile(folderId, { name: "HR", mimeType: folderMimeType }),
+	);
+	fakeDrive.files.set(
+		fileId,
+		createFakeFile(fileId, { name: "Salaries", parents: [folderId] }),
+	);
+	channel = createFakeChannel(testGuildId);
+});
+
+/**
+ * Find the events of the file in the source message, from the oldest to the newest.
+ * @param source source message
+ * @returns actions and titles of the events
+ */
+const findEvents = (
+	source: FakeMessage,
+): Pick<AuditEvent, "action" | "title">[] =>
+	findAuditEvents(testGuildId, fileId, 100)
+		.filter(({ messageId }) => messageId === source.id)
+		.reverse()
+		.map(({ action, title }) => ({ action, title }));
+
+describe("audit events", () => {
+	test("records who exposed which file where", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		const [event] = findAuditEvents(testGuildId, fileId, 1);
+		expect(event).toMatchObject({
+			action: "created",
+			fileId,
+			title: "Salaries",
+			userId,
+			guildId: testGuildId,
+			channelId: channel.id,
+			messageId: source.id,
+		});
+	});
+
+	test("records edited and deleted embeds", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		fakeDrive.files.set(
+			fileId,
+			createFakeFile(fileId, { name: "Salaries 2025", parents: [folderId] }),
+		);
+		await updateEmbedsMessage(asMessage(source));
+		await deleteEmbedsMessage(asMessage(source));
+
+		expect(findEvents(source)).toEqual([
+			{ action: "created", title: "Salaries" },
+			{ action: "edited", title: "Salaries 2025" },
+			{ action: "deleted", title: null },
+		]);
+	});
+
+	test("records files refused by the access policy", async () => {
+		const settings = guildSettings.get(testGuildId);
+		if (settings) {
+			settings.access = { channels: {}, roles: {}, restricted: "hide" };
+		}
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		expect(channel.requests).not.toContain("send");
+		expect(findEvents(source)).toEqual([
+			{ action: "refused", title: "Salaries" },
+		]);
+	});
+
+	test("records refused files only once while they stay refused", async () => {
+		const settings = guildSettings.get(testGuildId);
+		if (settings) {
+			settings.access = { channels: {}, roles: {}, restricted: "card" };
+		}
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		source.content = `See ${fileUrl} again`;
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(findEvents(source)).toEqual([
+			{ action: "refused", title: "Salaries" },
+		]);
+	});
+
+	test("appends events to the log file", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		const lines = (await file(testAuditLogPath).text()).trim().split("\n");
+		const events = lines.map((line) => JSON.parse(line) as AuditEvent);
+		expect(events.at(-1)).toMatchObject({
+			action: "created",
+			fileId,
+			messageId: source.id,
+		});
+	});
+});
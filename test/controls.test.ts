@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { MessageFlags } from "discord.js";
+import { displayButton, refreshButton, removeButton } from "../src/controls";
+import { updateEmbedsMessage } from "../src/embeds";
+import { deleteEmbedsMapping, findEmbedsMapping } from "../src/mappings";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	type FakeMessage,
+	asMessage,
+	createFakeChannel,
+	findBotMessages,
+	nextSnowflake,
+	postSourceMessage,
+	pressButton,
+} from "./fakeDiscord";
+import { createFakeFile, fileId, fileUrl } from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+let channel: FakeChannel;
+let source: FakeMessage;
+let embedsMessage: FakeMessage;
+
+beforeEach(async () => {
+	fakeDrive.files.set(fileId, createFakeFile(fileId, { name: "Report" }));
+	channel = createFakeChannel(testGuildId);
+	source = await postSourceMessage(channel, `See ${fileUrl}`, [fileUrl]);
+	const [sent] = findBotMessages(channel);
+	if (!sent) {
+		throw new Error("Embeds message is not sent.");
+	}
+	embedsMessage = sent;
+	channel.requests.length = 0;
+});
+
+describe("refreshButton", () => {
+	test("updates the embeds with the latest metadata", async () => {
+		fakeDrive.files.set(fileId, createFakeFile(fileId, { name: "Final" }));
+		await pressButton(refreshButton, embedsMessage);
+
+		expect(channel.requests).toEqual([`edit ${embedsMessage.id}`]);
+		expect(embedsMessage.embeds[0]?.title).toStartWith("Final");
+	});
+
+	test("deletes the embeds message if the source message is deleted", async () => {
+		channel.messages.cache.delete(source.id);
+		await pressButton(refreshButton, embedsMessage);
+
+		expect(channel.messages.cache.has(embedsMessage.id)).toBeFalse();
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+});
+
+describe("displayButton", () => {
+	test("collapses the embeds into links and expands them again", async () => {
+		await pressButton(displayButton, embedsMessage);
+
+		expect(embedsMessage.embeds).toBeEmpty();
+		expect(embedsMessage.content).toStartWith(`[Report](<${fileUrl}>)`);
+
+		// edits of the source message keep the embeds collapsed
+		source.content = `Updated ${fileUrl}`;
+		await updateEmbedsMessage(asMessage(source));
+		expect(embedsMessage.embeds).toBeEmpty();
+
+		// the collapsed embeds message is found by scanning the history
+		deleteEmbedsMapping(source.id);
+		await pressButton(displayButton, embedsMessage);
+		expect(embedsMessage.embeds.map(({ url }) => url)).toEqual([fileUrl]);
+		expect(embedsMessage.content).toBeEmpty();
+		expect(channel.requests).not.toContain("send");
+	});
+});
+
+describe("removeButton", () => {
+	test("deletes the embeds message and restores the default embeds", async () => {
+		expect(source.flags.has(MessageFlags.SuppressEmbeds)).toBeTrue();
+		await pressButton(removeButton, embedsMessage);
+
+		expect(channel.messages.cache.has(embedsMessage.id)).toBeFalse();
+		expect(source.flags.has(MessageFlags.SuppressEmbeds)).toBeFalse();
+
+		// embeds are not created again even if the source message is edited
+		await updateEmbedsMessage(asMessage(source));
+		expect(channel.requests).toEqual([
+			`delete ${embedsMessage.id}`,
+			`suppressEmbeds ${source.id} false`,
+		]);
+	});
+
+	test("can only be used by the author of the source message or moderators", async () => {
+		const replies = await pressButton(
+			removeButton,
+			embedsMessage,
+			nextSnowflake(),
+		);
+
+		expect(replies).toEqual([
+			expect.stringContaining("members with the Manage Messages permission"),
+		]);
+		expect(channel.requests).toBeEmpty();
+	});
+});
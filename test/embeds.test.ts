@@ -0,0 +1,333 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { MessageFlags } from "discord.js";
+import { saveChannelConfig } from "../src/channelConfigs";
+import { deleteEmbedsMessage, updateEmbedsMessage } from "../src/embeds";
+import { folderMimeType } from "../src/gdrive";
+import { deleteEmbedsMapping, findEmbedsMapping } from "../src/mappings";
+import { decodeAppendedInvisible } from "../src/util/invisible";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	asMessage,
+	createFakeChannel,
+	findBotMessages,
+	postSourceMessage,
+} from "./fakeDiscord";
+import {
+	createFakeFile,
+	fileId,
+	fileUrl,
+	otherFileId,
+	otherFileUrl,
+} from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long
+const folderId = "1cccccccccccccccccccccccccccccccc";
+const subfolderId = "1dddddddddddddddddddddddddddddddd";
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	fakeDrive.files.set(fileId, createFakeFile(fileId, { name: "Report" }));
+	fakeDrive.files.set(
+		otherFileId,
+		createFakeFile(otherFileId, { name: "Minutes" }),
+	);
+	// use a new channel in each test to isolate messages and channel configs
+	channel = createFakeChannel(testGuildId);
+});
+
+describe("updateEmbedsMessage", () => {
+	test("creates an embeds message for a new message with links", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		const [embedsMessage, ...rest] = findBotMessages(channel);
+		expect(rest).toBeEmpty();
+		expect(channel.requests).toEqual(["send"]);
+		expect(embedsMessage?.embeds.map(({ url }) => url)).toEqual([fileUrl]);
+		// the source message ID is hidden in the title
+		expect(embedsMessage?.embeds[0]?.title).toStartWith("Report");
+		expect(decodeAppendedInvisible(embedsMessage?.embeds[0]?.title ?? "")).toBe(
+			source.id,
+		);
+		expect(findEmbedsMapping(source.id)).toEqual({
+			sourceId: source.id,
+			channelId: channel.id,
+			embedsMessageId: embedsMessage?.id ?? "",
+			fileIds: [fileId],
+		});
+	});
+
+	test("replies to the source message if configured", async () => {
+		saveChannelConfig(channel.id, testGuildId, { reply: true });
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		expect(channel.requests).toEqual([`reply ${source.id}`]);
+		expect(findBotMessages(channel)).toHaveLength(1);
+	});
+
+	test("does nothing for messages without links", async () => {
+		const source = await postSourceMessage(channel, "Hello");
+
+		expect(channel.requests).toBeEmpty();
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("edits the embeds message when the file is changed", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		fakeDrive.files.set(
+			fileId,
+			createFakeFile(fileId, {
+				name: "Final report",
+				modifiedTime: "2024-02-01T00:00:00.000Z",
+			}),
+		);
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `edit ${embedsMessage?.id}`]);
+		expect(embedsMessage?.embeds[0]?.title).toStartWith("Final report");
+	});
+
+	test("does not edit the embeds message if nothing is changed", async () => {
+		// Discord adds extra properties and reformats timestamps in sent embeds
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send"]);
+	});
+
+	test("does not edit the embeds message of a folder if nothing is changed", async () => {
+		fakeDrive.files.set(
+			folderId,
+			createFakeFile(folderId, {
+				name: "Projects",
+				mimeType: folderMimeType,
+				webViewLink: `https://drive.google.com/drive/folders/${folderId}`,
+			}),
+		);
+		fakeDrive.files.set(
+			subfolderId,
+			createFakeFile(subfolderId, {
+				name: "2024",
+				mimeType: folderMimeType,
+				parents: [folderId],
+			}),
+		);
+		const source = await postSourceMessage(
+			channel,
+			`https://drive.google.com/drive/folders/${folderId}`,
+		);
+		const [embedsMessage] = findBotMessages(channel);
+		// a row to browse the folder and a row of the controls
+		expect(embedsMessage?.components).toHaveLength(2);
+
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send"]);
+	});
+
+	test("edits the embeds message when links are added", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		source.content = `See ${fileUrl} and ${otherFileUrl}`;
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `edit ${embedsMessage?.id}`]);
+		expect(embedsMessage?.embeds.map(({ url }) => url)).toEqual([
+			fileUrl,
+			otherFileUrl,
+		]);
+		expect(findEmbedsMapping(source.id)?.fileIds).toEqual([
+			fileId,
+			otherFileId,
+		]);
+	});
+
+	test("deletes the embeds message when links are removed", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		source.content = "Never mind";
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `delete ${embedsMessage?.id}`]);
+		expect(findBotMessages(channel)).toBeEmpty();
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("finds the embeds message by scanning the history if not recorded", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+		deleteEmbedsMapping(source.id);
+
+		source.content = `See ${fileUrl} and ${otherFileUrl}`;
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `edit ${embedsMessage?.id}`]);
+		expect(findEmbedsMapping(source.id)?.embedsMessageId).toBe(
+			embedsMessage?.id ?? "",
+		);
+	});
+
+	test("sends a new embeds message if the old one was deleted manually", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [oldEmbedsMessage] = findBotMessages(channel);
+		channel.messages.cache.delete(oldEmbedsMessage?.id ?? "");
+
+		await updateEmbedsMessage(asMessage(source));
+
+		const [newEmbedsMessage] = findBotMessages(channel);
+		expect(channel.requests).toEqual(["send", "send"]);
+		expect(findEmbedsMapping(source.id)?.embedsMessageId).toBe(
+			newEmbedsMessage?.id ?? "",
+		);
+	});
+});
+
+describe("files not found", () => {
+	test("are ignored when creating embeds", async () => {
+		fakeDrive.files.delete(fileId);
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+
+		expect(
+			fakeDrive.requests.some((request) =>
+				request.startsWith(`/drive/v3/files/${fileId}?`),
+			),
+		).toBe(true);
+		expect(channel.requests).toBeEmpty();
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("are omitted from embeds with accessible files", async () => {
+		fakeDrive.files.delete(fileId);
+		const source = await postSourceMessage(
+			channel,
+			`See ${fileUrl} and ${otherFileUrl}`,
+		);
+
+		const [embedsMessage] = findBotMessages(channel);
+		expect(embedsMessage?.embeds.map(({ url }) => url)).toEqual([otherFileUrl]);
+		expect(findEmbedsMapping(source.id)?.fileIds).toEqual([otherFileId]);
+	});
+
+	test("delete the embeds message when the file becomes inaccessible", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		fakeDrive.files.delete(fileId);
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `delete ${embedsMessage?.id}`]);
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+});
+
+describe("suppressing default embeds", () => {
+	test("suppresses default embeds whose URLs match links after normalization", async () => {
+		const source = await postSourceMessage(
+			channel,
+			`See ${fileUrl}#heading=h.1`,
+			[`http://docs.google.com:443/document/d/${fileId}/edit?usp=sharing`],
+		);
+
+		expect(channel.requests).toEqual([
+			"send",
+			`suppressEmbeds ${source.id} true`,
+		]);
+		expect(source.flags.has(MessageFlags.SuppressEmbeds)).toBe(true);
+	});
+
+	test("does not suppress default embeds of other links", async () => {
+		await postSourceMessage(channel, `See ${fileUrl} and https://example.com`, [
+			fileUrl,
+			"https://example.com",
+		]);
+
+		expect(channel.requests).toEqual(["send"]);
+	});
+
+	test("does not suppress default embeds if disabled in the channel", async () => {
+		saveChannelConfig(channel.id, testGuildId, { suppress: false });
+		await postSourceMessage(channel, `See ${fileUrl}`, [fileUrl]);
+
+		expect(channel.requests).toEqual(["send"]);
+	});
+
+	test("does not suppress again on the update caused by suppression", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`, [
+			fileUrl,
+		]);
+		// suppressing embeds triggers `messageUpdate` of the source message
+		await updateEmbedsMessage(asMessage(source), { isEmbedsSuppressed: true });
+		// other updates do not send requests since the embeds are already suppressed
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual([
+			"send",
+			`suppressEmbeds ${source.id} true`,
+		]);
+	});
+
+	test("restores default embeds when the links are removed", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`, [
+			fileUrl,
+		]);
+		const [embedsMessage] = findBotMessages(channel);
+
+		source.content = "See https://example.com";
+		source.embeds = [];
+		await updateEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual([
+			"send",
+			`suppressEmbeds ${source.id} true`,
+			`delete ${embedsMessage?.id}`,
+			`suppressEmbeds ${source.id} false`,
+		]);
+	});
+});
+
+describe("deleteEmbedsMessage", () => {
+	test("deletes the embeds message and its mapping", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+
+		await deleteEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send", `delete ${embedsMessage?.id}`]);
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("deletes embeds messages of bulk deleted messages", async () => {
+		const sources = [
+			await postSourceMessage(channel, `See ${fileUrl}`),
+			await postSourceMessage(channel, "Hello"),
+			await postSourceMessage(channel, `See ${otherFileUrl}`),
+		];
+
+		// same as the handler of `messageDeleteBulk`
+		for (const source of sources) {
+			await deleteEmbedsMessage(asMessage(source));
+		}
+
+		expect(findBotMessages(channel)).toBeEmpty();
+		for (const source of sources) {
+			expect(findEmbedsMapping(source.id)).toBeUndefined();
+		}
+	});
+
+	test("ignores embeds messages already deleted", async () => {
+		const source = await postSourceMessage(channel, `See ${fileUrl}`);
+		const [embedsMessage] = findBotMessages(channel);
+		channel.messages.cache.delete(embedsMessage?.id ?? "");
+
+		await deleteEmbedsMessage(asMessage(source));
+
+		expect(channel.requests).toEqual(["send"]);
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+});
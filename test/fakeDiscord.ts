@@ -0,0 +1,440 @@
+import {
+	type APIActionRowComponent,
+	type APIButtonComponentWithCustomId,
+	type APIEmbed,
+	type ButtonInteraction,
+	Collection,
+	ComponentType,
+	DiscordAPIError,
+	EmbedType,
+	type Message,
+	type MessageCreateOptions,
+	type MessageEditOptions,
+	MessageFlags,
+	MessageFlagsBitField,
+	RESTJSONErrorCodes,
+	SnowflakeUtil,
+	isJSONEncodable,
+} from "discord.js";
+import type { ExecutableComponent } from "../src/commands";
+import { updateEmbedsMessage } from "../src/embeds";
+import { parseCustomId } from "../src/util/customId";
+
+/**
+ * ID of the bot user, which sends embeds messages.
+ */
+export const botUserId = "100000000000000001";
+
+/**
+ * ID of the user who sends source messages.
+ */
+export const userId = "100000000000000002";
+
+/**
+ * Embed of a sent message, with the properties read by the bot.
+ */
+type FakeEmbed = {
+	data: APIEmbed;
+	title: string | null;
+	url: string | null;
+};
+
+/**
+ * Message in a fake channel, with the properties and methods used by the bot.
+ * Cast it to `Message` with `asMessage` to pass it to the bot.
+ */
+export type FakeMessage = {
+	id: string;
+	channelId: string;
+	guildId: string;
+	channel: FakeChannel;
+	author: { id: string; bot: boolean };
+	client: { user: { id: string } };
+	createdTimestamp: number;
+	/**
+	 * Time when the message was last edited, or null if never edited.
+	 */
+	editedTimestamp: number | null;
+	content: string;
+	embeds: FakeEmbed[];
+	// biome-ignore lint/style/useNamingConvention: library's naming convention
+	components: { toJSON: () => unknown }[];
+	flags: MessageFlagsBitField;
+	partial: false;
+	inGuild: () => true;
+	edit: (options: MessageEditOptions) => Promise<FakeMessage>;
+	delete: () => Promise<FakeMessage>;
+	reply: (options: MessageCreateOptions) => Promise<FakeMessage>;
+	suppressEmbeds: (suppress?: boolean) => Promise<FakeMessage>;
+};
+
+/**
+ * Guild text channel which keeps messages in memory.
+ */
+export type FakeChannel = {
+	id: string;
+	guildId: string;
+	parentId: string | null;
+	client: { user: { id: string } };
+	/**
+	 * ID of the newest message in the channel, if any.
+	 */
+	readonly lastMessageId: string | null;
+	isThread: () => false;
+	isTextBased: () => true;
+	isSendable: () => true;
+	// biome-ignore lint/style/useNamingConvention: library's naming convention
+	isDMBased: () => false;
+	permissionsFor: () => { has: () => true };
+	messages: {
+		cache: Map<string, FakeMessage>;
+		fetch: (
+			options: string | { after: string; limit: number },
+		) => Promise<FakeMessage | Collection<string, FakeMessage>>;
+	};
+	send: (options: MessageCreateOptions) => Promise<FakeMessage>;
+	/**
+	 * Requests to Discord API made by the bot, e.g. `send`, `edit <id>`, or `suppressEmbeds <id> true`.
+	 */
+	requests: string[];
+	/**
+	 * Post a message as a user.
+	 * @param content content of the message
+	 * @param embedUrls URLs of default embeds which Discord generates for links
+	 * @returns posted message
+	 */
+	post: (content: string, embedUrls?: string[]) => FakeMessage;
+};
+
+/**
+ * Generate a new snowflake of the current time, greater than all previous ones.
+ * Snowflakes increase over time, which the bot relies on to scan the history.
+ * @returns snowflake
+ */
+export const nextSnowflake = (): string => SnowflakeUtil.generate().toString();
+
+/**
+ * Convert an image URL of an embed as Discord does, replacing attachments with CDN URLs.
+ * @param url URL of the image
+ * @param channelId ID of the channel where the message is sent
+ * @returns URL as it appears in sent embeds
+ */
+const toSentImageUrl = (url: string, channelId: string): string =>
+	url.startsWith("attachment://")
+		? `https://cdn.discordapp.com/attachments/${channelId}/${nextSnowflake()}/${url.slice(
+				"attachment://".length,
+			)}?ex=0&is=0&hm=0`
+		: url;
+
+/**
+ * Convert embeds in options into embeds of a sent message, with the extra properties Discord adds.
+ * @param embeds embeds in options of a message
+ * @param channelId ID of the channel where the message is sent
+ * @returns embeds of the sent message
+ */
+const toSentEmbeds = (
+	embeds: MessageCreateOptions["embeds"],
+	channelId: string,
+): FakeEmbed[] =>
+	(embeds ?? []).map((embed) => {
+		const { timestamp, image, thumbnail, ...rest } = isJSONEncodable(embed)
+			? embed.toJSON()
+			: embed;
+		const data: APIEmbed = {
+			...rest,
+			type: EmbedType.Rich,
+			// Discord returns timestamps in a different format from `toISOString`
+			...(timestamp
+				? {
+						timestamp: new Date(timestamp)
+							.toISOString()
+							.replace(/\.\d{3}Z$/, "+00:00"),
+					}
+				: {}),
+			...(image
+				? { image: { url: toSentImageUrl(image.url, channelId) } }
+				: {}),
+			...(thumbnail
+				? { thumbnail: { url: toSentImageUrl(thumbnail.url, channelId) } }
+				: {}),
+		};
+		return { data, title: data.title ?? null, url: data.url ?? null };
+	});
+
+/**
+ * Convert rows of components in options into rows of a sent message, with IDs Discord adds.
+ * @param components rows in options of a message
+ * @returns rows of the sent message
+ */
+const toSentComponents = (
+	components: MessageCreateOptions["components"],
+): FakeMessage["components"] =>
+	(components ?? []).map((row, i) => {
+		const data = isJSONEncodable(row) ? row.toJSON() : row;
+		// biome-ignore lint/style/useNamingConvention: library's naming convention
+		return { toJSON: () => ({ ...data, id: i + 1 }) };
+	});
+
+/**
+ * Create an error which Discord API returns for deleted messages.
+ * @param messageId ID of the message
+ * @returns error thrown by discord.js
+ */
+const createUnknownMessageError = (messageId: string): DiscordAPIError =>
+	new DiscordAPIError(
+		{ code: RESTJSONErrorCodes.UnknownMessage, message: "Unknown Message" },
+		RESTJSONErrorCodes.UnknownMessage,
+		404,
+		"GET",
+		`/channels/0/messages/${messageId}`,
+		{},
+	);
+
+/**
+ * Create a message in a fake channel.
+ * @param channel channel of the message
+ * @param authorId ID of the author
+ * @param options content, embeds, components, and flags of the message
+ * @returns created message
+ */
+const createFakeMessage = (
+	channel: FakeChannel,
+	authorId: string,
+	{ content, embeds, components, flags }: MessageCreateOptions,
+): FakeMessage => {
+	const id = nextSnowflake();
+	const message: FakeMessage = {
+		id,
+		channelId: channel.id,
+		guildId: channel.guildId,
+		channel,
+		author: { id: authorId, bot: authorId === botUserId },
+		client: { user: { id: botUserId } },
+		createdTimestamp: SnowflakeUtil.timestampFrom(id),
+		editedTimestamp: null,
+		content: content ?? "",
+		embeds: toSentEmbeds(embeds, channel.id),
+		components: toSentComponents(components),
+		// the bot resolves flags into numbers
+		flags: new MessageFlagsBitField(typeof flags === "number" ? flags : 0),
+		partial: false,
+		inGuild: () => true,
+		edit: async (options) => {
+			channel.requests.push(`edit ${id}`);
+			if (typeof options.content === "string") {
+				message.content = options.content;
+			}
+			if (options.embeds) {
+				message.embeds = toSentEmbeds(options.embeds, channel.id);
+			}
+			if (options.components) {
+				message.components = toSentComponents(options.components);
+			}
+			return await Promise.resolve(message);
+		},
+		delete: async () => {
+			channel.requests.push(`delete ${id}`);
+			if (!channel.messages.cache.delete(id)) {
+				throw createUnknownMessageError(id);
+			}
+			return await Promise.resolve(message);
+		},
+		reply: async (options) => {
+			channel.requests.push(`reply ${id}`);
+			return await Promise.resolve(
+				createFakeMessage(channel, botUserId, options),
+			);
+		},
+		suppressEmbeds: async (suppress = true) => {
+			channel.requests.push(`suppressEmbeds ${id} ${suppress}`);
+			if (suppress) {
+				message.flags.add(MessageFlags.SuppressEmbeds);
+			} else {
+				message.flags.remove(MessageFlags.SuppressEmbeds);
+			}
+			return await Promise.resolve(message);
+		},
+	};
+	channel.messages.cache.set(id, message);
+	return message;
+};
+
+/**
+ * Create a guild text channel which keeps messages in memory.
+ * @param guildId ID of the guild, which must be in `DISCORD_GUILD_IDS` for the bot to act
+ * @returns fake channel
+ */
+export const createFakeChannel = (guildId: string): FakeChannel => {
+	const cache = new Map<string, FakeMessage>();
+	const channel: FakeChannel = {
+		id: nextSnowflake(),
+		guildId,
+		parentId: null,
+		client: { user: { id: botUserId } },
+		get lastMessageId() {
+			return [...cache.keys()].at(-1) ?? null;
+		},
+		isThread: () => false,
+		isTextBased: () => true,
+		isSendable: () => true,
+		// biome-ignore lint/style/useNamingConvention: library's naming convention
+		isDMBased: () => false,
+		// the bot has all permissions
+		permissionsFor: () => ({ has: () => true }),
+		messages: {
+			cache,
+			fetch: async (options) => {
+				if (typeof options === "string") {
+					const message = cache.get(options);
+					if (!message) {
+						throw createUnknownMessageError(options);
+					}
+					return await Promise.resolve(message);
+				}
+				// Discord returns messages from the newest to the oldest
+				const history = [...cache.values()]
+					.filter(({ id }) => BigInt(id) > BigInt(options.after))
+					.sort((a, b) => Number(BigInt(b.id) - BigInt(a.id)))
+					.slice(0, options.limit);
+				return await Promise.resolve(
+					new Collection(history.map((message) => [message.id, message])),
+				);
+			},
+		},
+		send: async (options) => {
+			channel.requests.push("send");
+			return await Promise.resolve(
+				createFakeMessage(channel, botUserId, options),
+			);
+		},
+		requests: [],
+		post: (content, embedUrls = []) => {
+			const message = createFakeMessage(channel, userId, { content });
+			message.embeds = embedUrls.map((url) => ({
+				data: { type: EmbedType.Link, url },
+				title: null,
+				url,
+			}));
+			return message;
+		},
+	};
+	return channel;
+};
+
+/**
+ * Treat a fake message as a message of discord.js.
+ * @param message fake message
+ * @returns the same object typed as a message
+ */
+export const asMessage = (message: FakeMessage): Message =>
+	message as unknown as Message;
+
+/**
+ * Find the messages sent by the bot in a channel, such as embeds messages and notices.
+ * @param channel fake channel
+ * @returns messages from the oldest to the newest
+ */
+export const findBotMessages = (channel: FakeChannel): FakeMessage[] =>
+	[...channel.messages.cache.values()].filter(
+		({ author }) => author.id === botUserId,
+	);
+
+/**
+ * Post a source message and create its embeds message, as the bot does on `messageCreate`.
+ * @param channel fake channel
+ * @param content content of the source message
+ * @param embedUrls URLs of default embeds of the source message
+ * @returns source message
+ */
+export const postSourceMessage = async (
+	channel: FakeChannel,
+	content: string,
+	embedUrls?: string[],
+): Promise<FakeMessage> => {
+	const source = channel.post(content, embedUrls);
+	await updateEmbedsMessage(asMessage(source), { isNewlyCreated: true });
+	return source;
+};
+
+/**
+ * Find the custom ID of a button in a message.
+ * @param message message with buttons
+ * @param prefix prefix of the custom ID
+ * @returns custom ID and its arguments
+ */
+const findButton = (message: FakeMessage, prefix: string) => {
+	const rows = message.components.map(
+		(row) =>
+			row.toJSON() as APIActionRowComponent<APIButtonComponentWithCustomId>,
+	);
+	const customId =
+		rows
+			.flatMap(({ components }) => components)
+			.map((component) => component.custom_id)
+			.find((id) => parseCustomId(id).prefix === prefix) ?? "";
+	return { customId, args: parseCustomId(customId).args };
+};
+
+/**
+ * Create a button interaction on a message, recording the replies.
+ * @param message message with the button
+ * @param customId custom ID of the button
+ * @param user user who presses the button
+ * @returns interaction and the contents of replies
+ */
+const createButtonInteraction = (
+	message: FakeMessage,
+	customId: string,
+	user: string = userId,
+) => {
+	const replies: string[] = [];
+	const interaction = {
+		customId,
+		message,
+		user: { id: user },
+		memberPermissions: null,
+		deferReply: async () => await Promise.resolve(),
+		deferUpdate: async () => await Promise.resolve(),
+		editReply: async (content: string) => {
+			replies.push(content);
+			return await Promise.resolve();
+		},
+		reply: async ({ content }: { content: string }) => {
+			replies.push(content);
+			return await Promise.resolve();
+		},
+		followUp: async ({ content }: { content: string }) => {
+			replies.push(content);
+			return await Promise.resolve();
+		},
+	};
+	return {
+		interaction: interaction as unknown as ButtonInteraction,
+		replies,
+	};
+};
+
+/**
+ * Press a button on a message sent by the bot.
+ * @param component handler of the button
+ * @param message message with the button
+ * @param user ID of the user who presses the button
+ * @returns contents of replies to the user
+ */
+export const pressButton = async (
+	component: ExecutableComponent,
+	message: FakeMessage,
+	user: string = userId,
+): Promise<string[]> => {
+	if (component.type !== ComponentType.Button) {
+		throw new Error(`${component.prefix} is not a button.`);
+	}
+	const { customId, args } = findButton(message, component.prefix);
+	const { interaction, replies } = createButtonInteraction(
+		message,
+		customId,
+		user,
+	);
+	await component.execute(interaction, args);
+	return replies;
+};
@@ -0,0 +1,208 @@
+import type { drive_v3 } from "@googleapis/drive";
+import { serve } from "bun";
+
+/**
+ * In-memory stand-in for Google Drive REST API v3, served over HTTP.
+ * Only the endpoints used by the bot are implemented.
+ */
+export type FakeDrive = {
+	/**
+	 * Root URL of the server, to be used as `rootUrl` of the API client.
+	 */
+	url: string;
+	/**
+	 * Files accessible by the bot, keyed by their IDs.
+	 * Files not in the map are reported as not found.
+	 */
+	files: Map<string, drive_v3.Schema$File>;
+	/**
+	 * Email of the Google account of the bot.
+	 */
+	email: string;
+	/**
+	 * Paths and queries of requests received, in the order of arrival.
+	 */
+	requests: string[];
+	/**
+	 * Remove all files and requests.
+	 */
+	reset: () => void;
+	/**
+	 * Stop the server.
+	 */
+	stop: () => void;
+};
+
+/**
+ * Create a response of an error in the format of Google Drive API.
+ * @param status HTTP status code
+ * @param reason reason of the error, e.g. `notFound`
+ * @param message message of the error
+ * @returns error response
+ */
+// ref: https://developers.google.com/drive/api/guides/handle-errors
+const createErrorResponse = (
+	status: number,
+	reason: string,
+	message: string,
+): Response =>
+	Response.json(
+		{
+			error: {
+				code: status,
+				message,
+				errors: [{ domain: "global", reason, message }],
+			},
+		},
+		{ status },
+	);
+
+/**
+ * List files matching a query, supporting only `'<id>' in parents` joined by `or`, `mimeType = '<type>'`, and `modifiedTime > '<time>'`.
+ * Files in shared drives, which have `driveId`, are listed only if the request includes items from all drives.
+ * Files in folders with `resourceKey` are listed only if the request has the resource keys of the folders.
+ * @param files files accessible by the bot
+ * @param request request to list files
+ * @returns matched files
+ */
+const listFiles = (
+	files: Map<string, drive_v3.Schema$File>,
+	request: Request,
+): drive_v3.Schema$File[] => {
+	const { searchParams } = new URL(request.url);
+	const query = searchParams.get("q");
+	const resourceKeys =
+		request.headers.get("X-Goog-Drive-Resource-Keys")?.split(",") ?? [];
+	/**
+	 * Check if files in a folder can be listed with the resource keys of the request.
+	 * @param folderId ID of the folder
+	 * @returns true if the folder does not require a resource key, or the key is provided
+	 */
+	const isListable = (folderId: string): boolean => {
+		const resourceKey = files.get(folderId)?.resourceKey;
+		return !resourceKey || resourceKeys.includes(`${folderId}/${resourceKey}`);
+	};
+	const includesAllDrives =
+		searchParams.get("supportsAllDrives") === "true" &&
+		searchParams.get("includeItemsFromAllDrives") === "true";
+	const parentIds = [...(query ?? "").matchAll(/'([-\w]+)' in parents/g)].map(
+		([, id]) => id,
+	);
+	const mimeType = query?.match(/mimeType = '([^']+)'/)?.[1];
+	const changedAfter = query?.match(/modifiedTime > '([^']+)'/)?.[1];
+	return [...files.entries()]
+		.filter(
+			([, file]) =>
+				(includesAllDrives || !file.driveId) &&
+				(parentIds.length === 0 ||
+					parentIds.some(
+						(id) => id && file.parents?.includes(id) && isListable(id),
+					)) &&
+				(!mimeType || file.mimeType === mimeType) &&
+				// times are compared as strings since both are in RFC 3339
+				(!changedAfter ||
+					(file.modifiedTime ?? "") > changedAfter ||
+					(file.createdTime ?? "") > changedAfter),
+		)
+		.map(([id, file]) => ({ id, ...file }));
+};
+
+/**
+ * Start a fake Google Drive API server on a random port.
+ * @param email email of the Google account of the bot
+ * @returns fake server with its files
+ */
+export const startFakeDrive = (
+	email = "bot@example.iam.gserviceaccount.com",
+): FakeDrive => {
+	const files = new Map<string, drive_v3.Schema$File>();
+	const requests: string[] = [];
+
+	const server = serve({
+		port: 0,
+		fetch: (request) => {
+			const { pathname, search } = new URL(request.url);
+			requests.push(`${pathname}${search}`);
+
+			if (pathname === "/drive/v3/about") {
+				return Response.json({ user: { emailAddress: email } });
+			}
+			if (pathname === "/drive/v3/files") {
+				return Response.json({
+					files: listFiles(files, request),
+				});
+			}
+			const fileId = pathname.match(/^\/drive\/v3\/files\/([-\w]+)$/)?.[1];
+			if (fileId) {
+				const file = files.get(fileId);
+				return file
+					? Response.json({ id: fileId, ...file })
+					: createErrorResponse(404, "notFound", `File not found: ${fileId}.`);
+			}
+			return createErrorResponse(
+				404,
+				"notFound",
+				`${pathname} is not implemented.`,
+			);
+		},
+	});
+
+	return {
+		url: server.url.href,
+		files,
+		email,
+		requests,
+		reset: () => {
+			files.clear();
+			requests.length = 0;
+		},
+		stop: () => {
+			server.stop(true);
+		},
+	};
+};
+
+/**
+ * ID of a file used in tests, which are at least 25 characters long.
+ */
+export const fileId = "1aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+/**
+ * ID of another file used in tests.
+ */
+export const otherFileId = "1bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+/**
+ * Create the URL of a Google Docs file, which is also its `webViewLink`.
+ * @param fileId ID of the file
+ * @returns URL of the file
+ */
+export const createFileUrl = (fileId: string): string =>
+	`https://docs.google.com/document/d/${fileId}/edit`;
+
+/**
+ * URL of `fileId`.
+ */
+export const fileUrl = createFileUrl(fileId);
+
+/**
+ * URL of `otherFileId`.
+ */
+export const otherFileUrl = createFileUrl(otherFileId);
+
+/**
+ * Create metadata of a Google Docs file with the fields required to create embeds.
+ * @param fileId ID of the file
+ * @param overrides fields to override
+ * @returns file metadata
+ */
+export const createFakeFile = (
+	fileId: string,
+	overrides: drive_v3.Schema$File = {},
+): drive_v3.Schema$File => ({
+	name: "Untitled document",
+	mimeType: "application/vnd.google-apps.document",
+	webViewLink: createFileUrl(fileId),
+	modifiedTime: "2024-01-01T00:00:00.000Z",
+	...overrides,
+});
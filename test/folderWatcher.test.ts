@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { Client } from "discord.js";
+import { findAuditEvents } from "../src/auditEvents";
+import { pollFolderWatches } from "../src/folderWatcher";
+import {
+	type FolderWatch,
+	deleteFolderWatch,
+	findFolderWatches,
+	saveFolderWatch,
+} from "../src/folderWatches";
+import { folderMimeType } from "../src/gdrive";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	createFakeChannel,
+	findBotMessages,
+} from "./fakeDiscord";
+import {
+	fileId as addedFileId,
+	createFakeFile,
+	otherFileId as modifiedFileId,
+} from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long
+const folderId = "1ffffffffffffffffffffffffffffffffff";
+const subfolderId = "1ggggggggggggggggggggggggggggggggg";
+const nestedFileId = "1cccccccccccccccccccccccccccccccccc";
+
+const cursor = "2024-01-01T00:00:00.000Z";
+const before = "2023-12-01T00:00:00.000Z";
+const after = "2024-01-02T00:00:00.000Z";
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	fakeDrive.files.set(
+		subfolderId,
+		createFakeFile(subfolderId, {
+			name: "Archive",
+			mimeType: folderMimeType,
+			parents: [folderId],
+			createdTime: before,
+			modifiedTime: before,
+		}),
+	);
+	fakeDrive.files.set(
+		addedFileId,
+		createFakeFile(addedFileId, {
+			name: "Report",
+			parents: [folderId],
+			createdTime: after,
+			modifiedTime: after,
+		}),
+	);
+	fakeDrive.files.set(
+		modifiedFileId,
+		createFakeFile(modifiedFileId, {
+			name: "Minutes",
+			mimeType: "application/vnd.google-apps.spreadsheet",
+			parents: [folderId],
+			createdTime: before,
+			modifiedTime: after,
+		}),
+	);
+	fakeDrive.files.set(
+		nestedFileId,
+		createFakeFile(nestedFileId, {
+			name: "Old report",
+			parents: [subfolderId],
+			createdTime: after,
+			modifiedTime: after,
+		}),
+	);
+	for (const watch of findFolderWatches()) {
+		deleteFolderWatch(watch);
+	}
+	channel = createFakeChannel(testGuildId);
+});
+
+/**
+ * Watch the folder in the channel.
+ * @param options options of the watch
+ */
+const watchFolder = (options: Partial<FolderWatch> = {}) => {
+	saveFolderWatch({
+		guildId: testGuildId,
+		channelId: channel.id,
+		folderId,
+		folderName: "Shared",
+		subfolders: false,
+		events: "modified",
+		cursor,
+		...options,
+	});
+};
+
+/**
+ * Poll watched folders as the bot does periodically.
+ */
+const poll = async () => {
+	const client = {
+		channels: { fetch: async () => await Promise.resolve(channel) },
+	};
+	await pollFolderWatches(client as unknown as Client<true>);
+};
+
+/**
+ * Get the names of files notified to the channel.
+ * @returns names of files in embeds
+ */
+const notifiedNames = (): (string | null)[] =>
+	findBotMessages(channel).flatMap(({ embeds }) =>
+		embeds.map(({ title }) => title),
+	);
+
+describe("pollFolderWatches", () => {
+	test("notifies added and modified files", async () => {
+		watchFolder();
+		await poll();
+
+		expect(channel.requests).toEqual(["send"]);
+		expect(notifiedNames().sort()).toEqual(["Minutes", "Report"]);
+		const [message] = channel.messages.cache.values();
+		expect(message?.content).toStartWith("2 files were added or modified in");
+	});
+
+	test("records audit events of notified files", async () => {
+		watchFolder();
+		await poll();
+
+		const [message] = channel.messages.cache.values();
+		expect(findAuditEvents(testGuildId, addedFileId, 1)).toEqual([
+			expect.objectContaining({
+				action: "created",
+				title: "Report",
+				userId: null,
+				channelId: channel.id,
+				messageId: message?.id,
+			}),
+		]);
+	});
+
+	test("only notifies added files if configured", async () => {
+		watchFolder({ events: "created" });
+		await poll();
+
+		expect(notifiedNames()).toEqual(["Report"]);
+	});
+
+	test("filters files by type", async () => {
+		watchFolder({ fileType: "sheets" });
+		await poll();
+
+		expect(notifiedNames()).toEqual(["Minutes"]);
+	});
+
+	test("notifies files in subfolders if enabled", async () => {
+		watchFolder({ subfolders: true, events: "created" });
+		await poll();
+
+		expect(notifiedNames().sort()).toEqual(["Old report", "Report"]);
+	});
+
+	test("lists folders shared by links with their resource keys", async () => {
+		fakeDrive.files.set(
+			folderId,
+			createFakeFile(folderId, {
+				name: "Shared",
+				mimeType: folderMimeType,
+				resourceKey: "0-folder",
+			}),
+		);
+		fakeDrive.files.set(
+			subfolderId,
+			createFakeFile(subfolderId, {
+				name: "Archive",
+				mimeType: folderMimeType,
+				parents: [folderId],
+				resourceKey: "0-subfolder",
+			}),
+		);
+		watchFolder({
+			resourceKey: "0-folder",
+			subfolders: true,
+			events: "created",
+		});
+		await poll();
+
+		expect(notifiedNames().sort()).toEqual(["Old report", "Report"]);
+	});
+
+	test("does not notify the same changes twice", async () => {
+		watchFolder();
+		await poll();
+		channel.requests.length = 0;
+
+		await poll();
+
+		expect(channel.requests).toBeEmpty();
+		expect(findFolderWatches()[0]?.cursor).not.toBe(cursor);
+	});
+
+	test("notifies files again if sending the notification fails", async () => {
+		watchFolder();
+		const { send } = channel;
+		channel.send = async () =>
+			await Promise.reject(new Error("Missing Permissions"));
+		await poll();
+		channel.send = send;
+
+		await poll();
+
+		expect(notifiedNames().sort()).toEqual(["Minutes", "Report"]);
+	});
+});
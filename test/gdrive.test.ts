@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { GaxiosError } from "gaxios";
+import { isNotFoundError, listFolderPage } from "../src/gdrive";
+import { createFakeFile, fileId } from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long
+const folderId = "1ffffffffffffffffffffffffffffffffff";
+const driveId = "0AAAAAAAAAAAAAAAAAA";
+
+/**
+ * Create a response body of Google Drive API with an error reason.
+ * @param reason reason of the error, e.g. `notFound`
+ * @returns response of the error
+ */
+const createErrorResponse = (reason: string) => ({
+	status: 404,
+	data: { error: { errors: [{ reason }] } },
+});
+
+describe("isNotFoundError", () => {
+	test("detects errors of gaxios", () => {
+		const error = Object.assign(
+			new GaxiosError("Not Found", {
+				headers: new Headers(),
+				url: new URL("https://www.googleapis.com/drive/v3/files"),
+			}),
+			{
+				response: createErrorResponse("notFound"),
+			},
+		);
+
+		expect(isNotFoundError(error)).toBe(true);
+	});
+
+	// googleapis bundles its own copy of gaxios, whose errors are not instances of the imported GaxiosError
+	test("detects errors of other copies of gaxios", () => {
+		const error = Object.assign(new Error("Not Found"), {
+			[Symbol.for("gaxios-gaxios-error")]: "7.0.0",
+			response: createErrorResponse("notFound"),
+		});
+
+		expect(isNotFoundError(error)).toBe(true);
+	});
+
+	test("ignores other errors", () => {
+		const error = Object.assign(new Error("Not Found"), {
+			response: createErrorResponse("notFound"),
+		});
+
+		expect(isNotFoundError(error)).toBe(false);
+	});
+});
+
+describe("listFolderPage", () => {
+	test("lists files in folders of shared drives", async () => {
+		fakeDrive.files.set(
+			fileId,
+			createFakeFile(fileId, { parents: [folderId], driveId }),
+		);
+
+		expect(await listFolderPage(folderId, 0)).toMatchObject({
+			files: [{ id: fileId }],
+			hasNextPage: false,
+		});
+	});
+});
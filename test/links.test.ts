@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type DriveLinkKind,
+	extractDriveLinks,
+	isFileId,
+	parseDriveUrl,
+} from "../src/links";
+import { fileId } from "./fakeDrive";
+
+// published files have IDs of their own, which are not file IDs
+const publishedId =
+	"2PACX-1vQaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+describe("parseDriveUrl", () => {
+	test.each<[string, string, DriveLinkKind]>([
+		["documents", `https://docs.google.com/document/d/${fileId}/edit`, "edit"],
+		[
+			"documents without actions",
+			`https://docs.google.com/document/d/${fileId}`,
+			"edit",
+		],
+		["files", `https://drive.google.com/file/d/${fileId}/view`, "view"],
+		[
+			"previews",
+			`https://docs.google.com/presentation/d/${fileId}/preview`,
+			"view",
+		],
+		["folders", `https://drive.google.com/drive/folders/${fileId}`, "view"],
+		["open links", `https://drive.google.com/open?id=${fileId}`, "view"],
+	])("parses links to %s", (_, url, kind) => {
+		expect(parseDriveUrl(url)).toEqual({ url, fileId, kind });
+	});
+
+	test.each([
+		["documents", `https://docs.google.com/document/u/1/d/${fileId}/edit`],
+		["folders", `https://drive.google.com/drive/u/0/folders/${fileId}`],
+		["files", `https://drive.google.com/file/u/2/d/${fileId}/view`],
+	])("parses links to %s of other signed-in accounts", (_, url) => {
+		expect(parseDriveUrl(url)?.fileId).toBe(fileId);
+	});
+
+	test.each([
+		[
+			"files",
+			`https://drive.google.com/file/d/${fileId}/view?usp=sharing&resourcekey=0-abcDEF_123`,
+		],
+		[
+			"folders",
+			`https://drive.google.com/drive/folders/${fileId}?resourcekey=0-abcDEF_123`,
+		],
+		[
+			"open links",
+			`https://drive.google.com/open?id=${fileId}&resourcekey=0-abcDEF_123`,
+		],
+	])("parses resource keys of %s", (_, url) => {
+		expect(parseDriveUrl(url)).toMatchObject({
+			fileId,
+			resourceKey: "0-abcDEF_123",
+		});
+	});
+
+	test.each([
+		["uc links", `https://drive.google.com/uc?export=download&id=${fileId}`],
+		[
+			"usercontent links",
+			`https://drive.usercontent.google.com/download?id=${fileId}&export=download`,
+		],
+		[
+			"exports",
+			`https://docs.google.com/document/d/${fileId}/export?format=pdf`,
+		],
+		[
+			"exports in paths",
+			`https://docs.google.com/spreadsheets/d/${fileId}/export/xlsx`,
+		],
+	])("parses download %s", (_, url) => {
+		expect(parseDriveUrl(url)).toEqual({ url, fileId, kind: "download" });
+	});
+
+	test.each([
+		["short IDs", "https://drive.google.com/file/d/abc/view"],
+		["pages without files", "https://drive.google.com/drive/my-drive"],
+		["open links without IDs", "https://drive.google.com/open"],
+		["malformed URLs", "https://"],
+	])("ignores %s", (_, url) => {
+		expect(parseDriveUrl(url)).toBeUndefined();
+	});
+
+	test.each([
+		["documents", `https://docs.google.com/document/d/e/${publishedId}/pub`],
+		[
+			"spreadsheets",
+			`https://docs.google.com/spreadsheets/d/e/${publishedId}/pubhtml`,
+		],
+		[
+			"presentations",
+			`https://docs.google.com/presentation/d/e/${publishedId}/pub?start=false`,
+		],
+	])("ignores published IDs of %s", (_, url) => {
+		expect(parseDriveUrl(url)).toBeUndefined();
+	});
+
+	test("parses published links with file IDs", () => {
+		const url = `https://docs.google.com/spreadsheets/d/${fileId}/pubhtml`;
+
+		expect(parseDriveUrl(url)).toEqual({ url, fileId, kind: "published" });
+	});
+});
+
+describe("extractDriveLinks", () => {
+	test("excludes surrounding punctuation from URLs", () => {
+		const url = `https://drive.google.com/file/d/${fileId}/view`;
+
+		expect(extractDriveLinks(`(see ${url}).`)).toEqual([
+			{ url, fileId, kind: "view" },
+		]);
+	});
+
+	test("skips published IDs among other links", () => {
+		const url = `https://docs.google.com/document/d/${fileId}/edit`;
+		const content = `See ${url} and https://docs.google.com/document/d/e/${publishedId}/pub`;
+
+		expect(extractDriveLinks(content)).toEqual([{ url, fileId, kind: "edit" }]);
+	});
+});
+
+describe("isFileId", () => {
+	test("accepts file IDs", () => {
+		expect(isFileId(fileId)).toBe(true);
+	});
+
+	test.each([
+		["short strings", "abc"],
+		["URLs", `https://drive.google.com/drive/folders/${fileId}`],
+		["quotes", `${fileId}' or name contains '`],
+	])("rejects %s", (_, value) => {
+		expect(isFileId(value)).toBe(false);
+	});
+});
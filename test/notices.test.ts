@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { findEmbedsMapping } from "../src/mappings";
+import {
+	dismissButton,
+	notifyInaccessibleLinks,
+	retryButton,
+} from "../src/notices";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	asMessage,
+	createFakeChannel,
+	findBotMessages,
+	nextSnowflake,
+	pressButton,
+} from "./fakeDiscord";
+import { createFakeFile, createFileUrl } from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	channel = createFakeChannel(testGuildId);
+});
+
+/**
+ * Generate a file ID not used in other tests, since notices are rate-limited across tests.
+ * @returns file ID
+ */
+const nextFileId = (): string => `1${nextSnowflake().padEnd(32, "0")}`;
+
+describe("notifyInaccessibleLinks", () => {
+	test("replies with the email of the bot once per user and file", async () => {
+		const fileId = nextFileId();
+		const source = channel.post(`See ${createFileUrl(fileId)}`);
+		await notifyInaccessibleLinks(asMessage(source));
+
+		const [notice, ...rest] = findBotMessages(channel);
+		expect(rest).toBeEmpty();
+		expect(channel.requests).toEqual([`reply ${source.id}`]);
+		expect(notice?.content).toContain(createFileUrl(fileId));
+		expect(notice?.content).toContain(fakeDrive.email);
+
+		// posting the same link again does not notify the user again
+		await notifyInaccessibleLinks(
+			asMessage(channel.post(createFileUrl(fileId))),
+		);
+		expect(findBotMessages(channel)).toHaveLength(1);
+	});
+
+	test("notifies again when a new inaccessible file is linked", async () => {
+		const fileId = nextFileId();
+		const newFileId = nextFileId();
+		await notifyInaccessibleLinks(
+			asMessage(channel.post(createFileUrl(fileId))),
+		);
+		await notifyInaccessibleLinks(
+			asMessage(
+				channel.post(`${createFileUrl(fileId)} ${createFileUrl(newFileId)}`),
+			),
+		);
+
+		const [, notice, ...rest] = findBotMessages(channel);
+		expect(rest).toBeEmpty();
+		// all inaccessible files are listed
+		expect(notice?.content).toContain(createFileUrl(fileId));
+		expect(notice?.content).toContain(createFileUrl(newFileId));
+	});
+
+	test("does not notify when all files are accessible", async () => {
+		const fileId = nextFileId();
+		fakeDrive.files.set(fileId, createFakeFile(fileId));
+		await notifyInaccessibleLinks(
+			asMessage(channel.post(createFileUrl(fileId))),
+		);
+
+		expect(findBotMessages(channel)).toBeEmpty();
+		expect(channel.requests).toBeEmpty();
+	});
+});
+
+describe("retryButton", () => {
+	test("creates embeds and deletes the notice after the file is shared", async () => {
+		const fileId = nextFileId();
+		const source = channel.post(createFileUrl(fileId));
+		await notifyInaccessibleLinks(asMessage(source));
+		const [notice] = findBotMessages(channel);
+		if (!notice) {
+			throw new Error("Notice is not sent.");
+		}
+
+		// still inaccessible
+		const [firstReply] = await pressButton(retryButton, notice);
+		expect(firstReply).toContain(createFileUrl(fileId));
+		expect(channel.messages.cache.has(notice.id)).toBeTrue();
+
+		fakeDrive.files.set(fileId, createFakeFile(fileId));
+		const [secondReply] = await pressButton(retryButton, notice);
+		expect(secondReply).toContain("accessible now");
+		expect(channel.messages.cache.has(notice.id)).toBeFalse();
+		expect(findEmbedsMapping(source.id)).toMatchObject({ sourceId: source.id });
+	});
+
+	test("deletes the notice if the source message is deleted", async () => {
+		const source = channel.post(createFileUrl(nextFileId()));
+		await notifyInaccessibleLinks(asMessage(source));
+		const [notice] = findBotMessages(channel);
+		if (!notice) {
+			throw new Error("Notice is not sent.");
+		}
+		await source.delete();
+
+		await pressButton(retryButton, notice);
+		expect(channel.messages.cache.has(notice.id)).toBeFalse();
+	});
+});
+
+describe("dismissButton", () => {
+	test("deletes the notice only when pressed by the author", async () => {
+		await notifyInaccessibleLinks(
+			asMessage(channel.post(createFileUrl(nextFileId()))),
+		);
+		const [notice] = findBotMessages(channel);
+		if (!notice) {
+			throw new Error("Notice is not sent.");
+		}
+
+		const replies = await pressButton(dismissButton, notice, nextSnowflake());
+		expect(replies).toHaveLength(1);
+		expect(channel.messages.cache.has(notice.id)).toBeTrue();
+
+		await pressButton(dismissButton, notice);
+		expect(channel.messages.cache.has(notice.id)).toBeFalse();
+	});
+});
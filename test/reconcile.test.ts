@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { type Client, Collection, SnowflakeUtil } from "discord.js";
+import { findEmbedsMapping } from "../src/mappings";
+import { advanceCheckpoint, reconcileMissedEvents } from "../src/reconcile";
+import { appendInvisible } from "../src/util/invisible";
+import { testGuildId } from "./config";
+import {
+	type FakeChannel,
+	type FakeMessage,
+	createFakeChannel,
+	findBotMessages,
+	nextSnowflake,
+	postSourceMessage,
+} from "./fakeDiscord";
+import {
+	createFakeFile,
+	fileId,
+	fileUrl,
+	otherFileId,
+	otherFileUrl,
+} from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	fakeDrive.files.set(fileId, createFakeFile(fileId, { name: "Report" }));
+	fakeDrive.files.set(
+		otherFileId,
+		createFakeFile(otherFileId, { name: "Minutes" }),
+	);
+	channel = createFakeChannel(testGuildId);
+});
+
+/**
+ * Reconcile the channel as the bot does after reconnecting.
+ */
+const reconcile = async () => {
+	const client = {
+		channels: { cache: new Collection([[channel.id, channel]]) },
+	};
+	await reconcileMissedEvents(client as unknown as Client<true>);
+};
+
+/**
+ * Post a source message and create its embeds message while the bot is online.
+ * @param content content of the source message
+ * @returns source message and its embeds message
+ */
+const postOnline = async (
+	content: string,
+): Promise<{ source: FakeMessage; embedsMessage: FakeMessage }> => {
+	const source = await postSourceMessage(channel, content);
+	const embedsMessage = findBotMessages(channel).at(-1);
+	if (!embedsMessage) {
+		throw new Error("Embeds message is not sent.");
+	}
+	return { source, embedsMessage };
+};
+
+describe("reconcileMissedEvents", () => {
+	// must run first since the checkpoint is persisted across tests
+	test("only records the checkpoint on the first run", async () => {
+		channel.post(fileUrl);
+		await reconcile();
+
+		expect(channel.requests).toBeEmpty();
+	});
+
+	test("creates embeds for messages posted while offline", async () => {
+		advanceCheckpoint(nextSnowflake());
+		const source = channel.post(`See ${fileUrl}`);
+		channel.post("No links here");
+		await reconcile();
+
+		expect(channel.requests).toEqual(["send"]);
+		expect(findEmbedsMapping(source.id)?.fileIds).toEqual([fileId]);
+	});
+
+	test("updates embeds of messages edited while offline", async () => {
+		advanceCheckpoint(nextSnowflake());
+		const { source, embedsMessage } = await postOnline(`See ${fileUrl}`);
+		channel.requests.length = 0;
+
+		source.content = `See ${otherFileUrl}`;
+		await reconcile();
+
+		expect(channel.requests).toEqual([`edit ${embedsMessage.id}`]);
+		expect(embedsMessage.embeds.map(({ url }) => url)).toEqual([otherFileUrl]);
+	});
+
+	test("deletes embeds messages whose source messages were deleted while offline", async () => {
+		advanceCheckpoint(nextSnowflake());
+		const { source, embedsMessage } = await postOnline(`See ${fileUrl}`);
+		channel.requests.length = 0;
+
+		channel.messages.cache.delete(source.id);
+		await reconcile();
+
+		expect(channel.requests).toEqual([`delete ${embedsMessage.id}`]);
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("deletes embeds messages of earlier messages deleted while offline", async () => {
+		const { source, embedsMessage } = await postOnline(`See ${fileUrl}`);
+		advanceCheckpoint(nextSnowflake());
+		channel.requests.length = 0;
+
+		channel.messages.cache.delete(source.id);
+		await reconcile();
+
+		expect(channel.requests).toEqual([`delete ${embedsMessage.id}`]);
+		expect(findEmbedsMapping(source.id)).toBeUndefined();
+	});
+
+	test("updates embeds of earlier messages edited while offline", async () => {
+		const { source, embedsMessage } = await postOnline(`See ${fileUrl}`);
+		const checkpoint = nextSnowflake();
+		advanceCheckpoint(checkpoint);
+		channel.requests.length = 0;
+
+		source.content = `See ${otherFileUrl}`;
+		source.editedTimestamp = SnowflakeUtil.timestampFrom(checkpoint) + 1;
+		await reconcile();
+
+		expect(channel.requests).toEqual([`edit ${embedsMessage.id}`]);
+		expect(embedsMessage.embeds.map(({ url }) => url)).toEqual([otherFileUrl]);
+	});
+
+	test("continues scanning after messages of the bot which are not embeds messages", async () => {
+		advanceCheckpoint(nextSnowflake());
+		const source = channel.post(`See ${fileUrl}`);
+		// visible characters after invisible ones cannot be decoded
+		await channel.send({ content: `${appendInvisible("Note", "1")}!` });
+		await reconcile();
+
+		expect(findEmbedsMapping(source.id)?.fileIds).toEqual([fileId]);
+	});
+
+	test("skips messages before the checkpoint", async () => {
+		await postOnline(`See ${fileUrl}`);
+		channel.post(`See ${otherFileUrl}`);
+		advanceCheckpoint(nextSnowflake());
+		channel.requests.length = 0;
+
+		await reconcile();
+
+		expect(channel.requests).toBeEmpty();
+	});
+});
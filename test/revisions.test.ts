@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+	type APIEmbed,
+	ApplicationCommandType,
+	type MessageContextMenuCommandInteraction,
+} from "discord.js";
+import { folderMimeType } from "../src/gdrive";
+import { guildSettings } from "../src/guilds";
+import { showRevisionsCommand } from "../src/revisions";
+import { testGuildId } from "./config";
+import { type FakeChannel, createFakeChannel } from "./fakeDiscord";
+import {
+	createFakeFile,
+	otherFileId as privateFileId,
+	otherFileUrl as privateFileUrl,
+	fileId as publicFileId,
+	fileUrl as publicFileUrl,
+} from "./fakeDrive";
+import { fakeDrive } from "./setup";
+
+// file IDs are at least 25 characters long
+const publicFolderId = "1pppppppppppppppppppppppppppppppp";
+const privateFolderId = "1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq";
+
+let channel: FakeChannel;
+
+beforeEach(() => {
+	for (const [id, name] of [
+		[publicFolderId, "Public"],
+		[privateFolderId, "Confidential"],
+	] as const) {
+		fakeDrive.files.set(
+			id,
+			createFakeFile(id, { name, mimeType: folderMimeType }),
+		);
+	}
+	fakeDrive.files.set(
+		publicFileId,
+		createFakeFile(publicFileId, {
+			name: "Meeting notes",
+			parents: [publicFolderId],
+		}),
+	);
+	fakeDrive.files.set(
+		privateFileId,
+		createFakeFile(privateFileId, {
+			name: "Layoff plan",
+			parents: [privateFolderId],
+		}),
+	);
+	channel = createFakeChannel(testGuildId);
+	const settings = guildSettings.get(testGuildId);
+	if (settings) {
+		settings.access = {
+			channels: { [channel.id]: [publicFolderId] },
+			roles: {},
+			restricted: "card",
+		};
+	}
+});
+
+/**
+ * Run `Show Revisions` on a message in the channel.
+ * @param content content of the target message
+ * @returns replies to the user
+ */
+const showRevisions = async (
+	content: string,
+): Promise<(string | { embeds?: APIEmbed[] })[]> => {
+	const replies: (string | { embeds?: APIEmbed[] })[] = [];
+	const interaction = {
+		targetMessage: { content },
+		channel,
+		inGuild: () => true,
+		deferReply: async () => await Promise.resolve(),
+		editReply: async (reply: string | { embeds?: APIEmbed[] }) => {
+			replies.push(reply);
+			return await Promise.resolve();
+		},
+	};
+	if (showRevisionsCommand.type !== ApplicationCommandType.Message) {
+		throw new Error("Show Revisions is not a message command.");
+	}
+	await showRevisionsCommand.execute(
+		interaction as unknown as MessageContextMenuCommandInteraction,
+	);
+	return replies;
+};
+
+describe("showRevisionsCommand", () => {
+	test("shows revisions of files in allowed folders", async () => {
+		const [reply] = await showRevisions(publicFileUrl);
+
+		expect(typeof reply === "object" && reply.embeds?.[0]?.title).toBe(
+			"Meeting notes",
+		);
+	});
+
+	test("does not reveal files outside allowed folders", async () => {
+		const replies = await showRevisions(privateFileUrl);
+
+		expect(replies).toEqual([
+			"No accessible Google Drive files are linked in this message.",
+		]);
+		expect(fakeDrive.requests.join("\n")).not.toContain("/revisions");
+	});
+});
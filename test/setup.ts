@@ -0,0 +1,64 @@
+import { afterAll, afterEach, beforeEach } from "bun:test";
+import { env, file } from "bun";
+import { testAuditLogPath, testGuildId } from "./config";
+import { startFakeDrive } from "./fakeDrive";
+
+// variables in .env would override the config for tests, see env.d.ts
+const envNames = [
+	"DISCORD_BOT_TOKEN",
+	"DISCORD_GUILD_IDS",
+	"DISCORD_GUILD_ID",
+	"GUILD_SETTINGS_PATH",
+	"DATABASE_PATH",
+	"DRIVE_WATCH_INTERVAL_SECONDS",
+	"DRIVE_WATCH_MAX_AGE_DAYS",
+	"DRIVE_CACHE_TTL_SECONDS",
+	"DRIVE_CACHE_PERSIST",
+	"HTTP_PORT",
+	"AUDIT_CHANNEL_ID",
+	"AUDIT_LOG_PATH",
+	"GOOGLE_AUTH_MODE",
+	"GOOGLE_SERVICE_ACCOUNT_KEY_FILE",
+	"GOOGLE_SERVICE_ACCOUNT_EMAIL",
+	"GOOGLE_SERVICE_ACCOUNT_KEY",
+	"GOOGLE_DELEGATION_SUBJECT",
+	"GOOGLE_OAUTH_CLIENT_ID",
+	"GOOGLE_OAUTH_CLIENT_SECRET",
+	"GOOGLE_OAUTH_REFRESH_TOKEN",
+	"GOOGLE_CONTENT_ACCESS",
+];
+// empty variables are treated as unset
+Object.assign(env, Object.fromEntries(envNames.map((name) => [name, ""])), {
+	// biome-ignore lint/style/useNamingConvention: environment variable
+	CONFIG_PATH: `${import.meta.dir}/config.ts`,
+});
+
+// import after the environment variables are set, since the config is loaded on import
+const { driveClient } = await import("../src/gdrive");
+const { guildSettings } = await import("../src/guilds");
+
+/**
+ * Fake Google Drive API server shared by all tests.
+ */
+export const fakeDrive = startFakeDrive();
+driveClient.context._options.rootUrl = fakeDrive.url;
+// use an API key instead of the service account to skip fetching access tokens
+driveClient.context._options.auth = "test-api-key";
+
+beforeEach(() => {
+	fakeDrive.reset();
+});
+
+afterEach(() => {
+	// tests set the access policy of the test guild in place
+	// biome-ignore lint/performance/noDelete: the property must be absent rather than undefined
+	delete guildSettings.get(testGuildId)?.access;
+});
+
+afterAll(async () => {
+	fakeDrive.stop();
+	// audit events are appended to the file by all tests
+	if (await file(testAuditLogPath).exists()) {
+		await file(testAuditLogPath).delete();
+	}
+});
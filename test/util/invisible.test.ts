@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import {
+	appendInvisible,
+	decodeAppendedInvisible,
+} from "../../src/util/invisible";
+
+describe("appendInvisible", () => {
+	test("appends only invisible characters", () => {
+		const appended = appendInvisible("Title", "123");
+		expect(appended.startsWith("Title")).toBe(true);
+		expect(
+			Array.from(appended.slice("Title".length)).every((char) =>
+				/[\u2060-\u206f]/u.test(char),
+			),
+		).toBe(true);
+	});
+});
+
+describe("decodeAppendedInvisible", () => {
+	test.each([
+		["snowflake", "Title", "1234567890123456789"],
+		["multibyte characters", "資料", "日本語 ✅ 🎉"],
+		["empty visible string", "", "123"],
+		["empty invisible string", "Title", ""],
+	])("round-trips %s", (_, visible, invisible) => {
+		expect(decodeAppendedInvisible(appendInvisible(visible, invisible))).toBe(
+			invisible,
+		);
+	});
+
+	test("returns an empty string if nothing is appended", () => {
+		expect(decodeAppendedInvisible("Title")).toBe("");
+	});
+
+	test("throws on visible characters after invisible ones", () => {
+		expect(() =>
+			decodeAppendedInvisible(`${appendInvisible("Title", "123")}!`),
+		).toThrow("Invalid invisible character: ! (U+0021)");
+	});
+});
@@ -0,0 +1,12 @@
+import { describe, expect, test } from "bun:test";
+import { escapeLinkText } from "../../src/util/markdown";
+
+describe("escapeLinkText", () => {
+	test.each([
+		["brackets", "[Draft] Plan", "\\[Draft\\] Plan"],
+		["markdown", "**Q1** _budget_", "\\*\\*Q1\\*\\* \\_budget\\_"],
+		["plain text", "Meeting notes", "Meeting notes"],
+	])("escapes %s", (_, text, escaped) => {
+		expect(escapeLinkText(text)).toBe(escaped);
+	});
+});
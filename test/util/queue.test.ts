@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { createKeyedQueue } from "../../src/util/queue";
+
+/**
+ * Create a task which records its name when it runs.
+ * @param runs array to record names of tasks in
+ * @param name name of the task
+ * @returns task
+ */
+const recordTask = (runs: string[], name: string) => async () => {
+	runs.push(name);
+	return await Promise.resolve();
+};
+
+describe("createKeyedQueue", () => {
+	test("skips tasks superseded by newer tasks of the same kind", async () => {
+		const enqueue = createKeyedQueue();
+		const runs: string[] = [];
+
+		await Promise.all([
+			enqueue("message", "update", recordTask(runs, "first")),
+			enqueue("message", "update", recordTask(runs, "second")),
+			enqueue("message", "update", recordTask(runs, "third")),
+		]);
+
+		expect(runs).toEqual(["third"]);
+	});
+
+	test("does not skip a delete followed by an update", async () => {
+		const enqueue = createKeyedQueue();
+		const runs: string[] = [];
+
+		await Promise.all([
+			enqueue("message", "delete", recordTask(runs, "delete")),
+			enqueue("message", "update", recordTask(runs, "update")),
+		]);
+
+		expect(runs).toEqual(["delete", "update"]);
+	});
+
+	test("runs tasks of different keys independently", async () => {
+		const enqueue = createKeyedQueue();
+		const runs: string[] = [];
+
+		await Promise.all([
+			enqueue("message", "update", recordTask(runs, "first")),
+			enqueue("another message", "update", recordTask(runs, "second")),
+		]);
+
+		expect(runs).toEqual(["first", "second"]);
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { type Schema, validateSchema } from "../../src/util/schema";
+
+const schema: Schema = {
+	type: "object",
+	fields: {
+		discord: {
+			type: "object",
+			fields: {
+				token: { type: "string" },
+				guildIds: { type: "string[]" },
+			},
+		},
+		access: {
+			type: "record",
+			keys: "snowflake",
+			values: {
+				type: "object",
+				fields: {
+					restricted: { type: "enum", values: ["card", "hide"] },
+					enabled: { type: "boolean" },
+				},
+			},
+		},
+		httpPort: { type: "number" },
+		color: { type: "string", pattern: /^#[\da-f]{6}$/i, format: "#rrggbb" },
+	},
+};
+
+/**
+ * Validate a value against the schema.
+ * @param value value to validate
+ * @returns validated value and error messages
+ */
+const validate = (value: unknown): { value: unknown; errors: string[] } => {
+	const errors: string[] = [];
+	return { value: validateSchema(value, schema, "", errors), errors };
+};
+
+describe("validateSchema", () => {
+	test("keeps valid values", () => {
+		const value = {
+			discord: { token: "token", guildIds: ["123"] },
+			access: { "123456789012345678": { restricted: "hide", enabled: false } },
+			httpPort: 8080,
+		};
+
+		expect(validate(value)).toEqual({ value, errors: [] });
+	});
+
+	test("reports invalid values with their paths, and keeps the rest", () => {
+		expect(
+			validate({
+				discord: { token: "token", guildIds: "123" },
+				access: { "123456789012345678": { restricted: "none" } },
+				httpPort: "8080",
+			}),
+		).toEqual({
+			value: {
+				discord: { token: "token" },
+				access: { "123456789012345678": {} },
+			},
+			errors: [
+				'discord.guildIds must be an array of strings, but got "123".',
+				'access.123456789012345678.restricted must be one of card, hide, but got "none".',
+				'httpPort must be a number, but got "8080".',
+			],
+		});
+	});
+
+	test("reports strings not matching patterns with their formats", () => {
+		expect(validate({ color: "red" })).toEqual({
+			value: {},
+			errors: ['color must be a string in the #rrggbb format, but got "red".'],
+		});
+	});
+
+	test("reports keys which are not snowflakes", () => {
+		expect(validate({ access: { general: { enabled: true } } })).toEqual({
+			value: { access: {} },
+			errors: [
+				"The key of access.general is not a snowflake. Copy the ID with Developer Mode enabled.",
+			],
+		});
+	});
+
+	test("reports unknown keys", () => {
+		expect(validate({ discord: { guildId: ["123"] } })).toEqual({
+			value: { discord: {} },
+			errors: [
+				"discord.guildId is not a known setting. Check the spelling of the key.",
+			],
+		});
+	});
+
+	test.each([
+		["arrays", []],
+		["null", null],
+		["strings", "config"],
+	])("rejects %s as objects", (_, value) => {
+		expect(validate({ discord: value }).errors).toEqual([
+			`discord must be an object, but got ${JSON.stringify(value)}.`,
+		]);
+	});
+
+	test("describes the root without a path", () => {
+		expect(validate([]).errors).toEqual([
+			"The contents must be an object, but got [].",
+		]);
+	});
+});